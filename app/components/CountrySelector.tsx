@@ -0,0 +1,45 @@
+import {Form, useLocation, useSubmit} from '@remix-run/react';
+import {useSelectedLocale} from '~/components/Link';
+import {LOCALES, getLocaleKey, stripLocalePrefix} from '~/lib/i18n';
+
+/**
+ * Picks the country and language of the storefront. Changing it posts to
+ * `/locale`, which reloads the current page in the new locale.
+ */
+export function CountrySelector({className}: {className?: string}) {
+  const selectedLocale = useSelectedLocale();
+  const {pathname, search} = useLocation();
+  const submit = useSubmit();
+
+  return (
+    <Form
+      method="post"
+      action="/locale"
+      className={className}
+      onChange={(event) => submit(event.currentTarget)}
+    >
+      <input
+        type="hidden"
+        name="redirectTo"
+        value={`${stripLocalePrefix(pathname)}${search}`}
+      />
+      <label>
+        <span className="sr-only">Country and language</span>
+        <select
+          key={getLocaleKey(selectedLocale)}
+          name="locale"
+          defaultValue={getLocaleKey(selectedLocale)}
+        >
+          {LOCALES.map((locale) => (
+            <option key={getLocaleKey(locale)} value={getLocaleKey(locale)}>
+              {locale.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <noscript>
+        <button type="submit">Change</button>
+      </noscript>
+    </Form>
+  );
+}
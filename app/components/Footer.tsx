@@ -1,10 +1,13 @@
-import {useMatches, NavLink} from '@remix-run/react';
+import {useMatches} from '@remix-run/react';
+import {NavLink} from '~/components/Link';
+import {CountrySelector} from '~/components/CountrySelector';
 import type {FooterQuery} from 'storefrontapi.generated';
 
 export function Footer({menu}: FooterQuery) {
   return (
     <footer className="footer">
       <FooterMenu menu={menu} />
+      <CountrySelector className="footer-country-selector" />
     </footer>
   );
 }
@@ -1,4 +1,6 @@
-import {Await, NavLink, useMatches} from '@remix-run/react';
+import {Await, useMatches} from '@remix-run/react';
+import {NavLink} from '~/components/Link';
+import {CountrySelector} from '~/components/CountrySelector';
 import {Suspense} from 'react';
 import type {LayoutProps} from './Layout';
 
@@ -84,6 +86,7 @@ function HeaderCtas({
   return (
     <nav className="header-ctas" role="navigation">
       <HeaderMenuMobileToggle />
+      <CountrySelector />
       <NavLink prefetch="intent" to="/account" style={activeLinkStyle}>
         {isLoggedIn ? 'Account' : 'Sign in'}
       </NavLink>
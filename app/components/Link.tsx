@@ -0,0 +1,45 @@
+import {
+  Link as RemixLink,
+  NavLink as RemixNavLink,
+  type LinkProps,
+  type NavLinkProps,
+  useMatches,
+} from '@remix-run/react';
+import {forwardRef} from 'react';
+import {DEFAULT_LOCALE, type Locale, localizePath} from '~/lib/i18n';
+
+/**
+ * The locale the page was rendered in, as picked by `server.ts`.
+ */
+export function useSelectedLocale(): Locale {
+  const [root] = useMatches();
+  return root?.data?.selectedLocale ?? DEFAULT_LOCALE;
+}
+
+// Keeps app paths such as `/cart` in the current locale, e.g. `/fr-ca/cart`
+export function useLocalizedPath(to: string): string;
+export function useLocalizedPath(to: LinkProps['to']): LinkProps['to'];
+export function useLocalizedPath(to: LinkProps['to']) {
+  const locale = useSelectedLocale();
+  return typeof to === 'string' ? localizePath(locale, to) : to;
+}
+
+/**
+ * Remix's `Link` that stays within the selected locale.
+ */
+export const Link = forwardRef<HTMLAnchorElement, LinkProps>(
+  ({to, ...props}, ref) => (
+    <RemixLink ref={ref} to={useLocalizedPath(to)} {...props} />
+  ),
+);
+Link.displayName = 'Link';
+
+/**
+ * Remix's `NavLink` that stays within the selected locale.
+ */
+export const NavLink = forwardRef<HTMLAnchorElement, NavLinkProps>(
+  ({to, ...props}, ref) => (
+    <RemixNavLink ref={ref} to={useLocalizedPath(to)} {...props} />
+  ),
+);
+NavLink.displayName = 'NavLink';
@@ -1,10 +1,5 @@
-import {
-  useParams,
-  useFetcher,
-  Link,
-  Form,
-  type FormProps,
-} from '@remix-run/react';
+import {useParams, useFetcher, Form, type FormProps} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Image, Money, Pagination} from '@shopify/hydrogen';
 import React, {useRef, useEffect} from 'react';
 import {useFetchers} from '@remix-run/react';
@@ -0,0 +1,77 @@
+import {Link} from '~/components/Link';
+import {CartForm} from '@shopify/hydrogen';
+import type {FetcherWithComponents} from '@remix-run/react';
+
+import {Button} from '~/components/ui/button';
+import type {Cat} from '~/lib/match/engine';
+
+import {Heart} from 'lucide-react';
+
+interface AdoptCatsProps {
+  cats: Cat[];
+}
+
+/**
+ * Results panel shown once a puzzle is solved, listing the cats that were
+ * in play with a link to each cat's product page and an add-to-cart button.
+ */
+export function AdoptCats({cats}: AdoptCatsProps) {
+  const adoptableCats = cats.filter((cat) => cat.product);
+  if (!adoptableCats.length) return null;
+
+  return (
+    <section className="flex flex-col items-center gap-3 mt-6">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Heart className="h-4 w-4 text-red-500" />
+        Adopt one of today&apos;s cats
+      </h3>
+      <ul className="flex flex-wrap justify-center gap-4">
+        {adoptableCats.map((cat) => (
+          <li
+            key={cat.id}
+            className="flex flex-col items-center gap-2 w-32 rounded-lg border-2 p-2"
+            style={{borderColor: cat.primaryColor}}
+          >
+            <Link
+              to={`/products/${cat.product!.handle}`}
+              className="flex flex-col items-center gap-1 text-sm"
+            >
+              <img
+                src={cat.image}
+                alt={cat.name}
+                width={64}
+                height={64}
+                className="object-contain rounded-full"
+              />
+              {cat.name}
+            </Link>
+            <AdoptButton cat={cat} />
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function AdoptButton({cat}: {cat: Cat}) {
+  const {variantId, availableForSale} = cat.product!;
+
+  return (
+    <CartForm
+      route="/cart"
+      inputs={{lines: [{merchandiseId: variantId, quantity: 1}]}}
+      action={CartForm.ACTIONS.LinesAdd}
+    >
+      {(fetcher: FetcherWithComponents<any>) => (
+        <Button
+          type="submit"
+          size="sm"
+          className="text-xs h-7 px-2"
+          disabled={!availableForSale || fetcher.state !== 'idle'}
+        >
+          {availableForSale ? 'Adopt this cat' : 'Already adopted'}
+        </Button>
+      )}
+    </CartForm>
+  );
+}
@@ -1,6 +1,14 @@
 'use client';
 
-import {useState, useEffect, useRef, CSSProperties} from 'react';
+import {
+  useState,
+  useEffect,
+  useRef,
+  CSSProperties,
+  KeyboardEvent,
+  PointerEvent,
+} from 'react';
+import {flushSync} from 'react-dom';
 
 import {Button} from '~/components/ui/button';
 import {Badge} from '~/components/ui/badge';
@@ -12,683 +20,791 @@ import {
 } from '~/components/ui/tooltip';
 
 import {cn} from '~/lib/utils';
+import {
+  DEFAULT_STACK_SIZE,
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  type LevelConfig,
+  type Cat,
+  type Difficulty,
+  type GameState,
+  type Move,
+  applyMove,
+  canMove,
+  getMatchingTopBoxes,
+  isDeadEnd,
+  isSolved,
+  revertMove,
+} from '~/lib/match/engine';
+import {generatePuzzle} from '~/lib/match/puzzle';
+import {getHint} from '~/lib/match/solver';
+import {
+  EMPTY_HISTORY,
+  type MoveHistory,
+  canRedo,
+  canUndo,
+  getAppliedMoves,
+  getStateAt,
+  jumpTo,
+  pushMove,
+} from '~/lib/match/history';
+import {calculateScore} from '~/lib/match/score';
+import {
+  GAME_MODES,
+  GAME_MODE_LABELS,
+  TIME_LIMITS,
+  type GameMode,
+  type LossReason,
+  canTakeBack,
+  getLossReason,
+  getMoveLimit,
+} from '~/lib/match/modes';
+import {formatDuration} from '~/lib/match/leaderboard';
+import {describeMove, describeStack} from '~/lib/match/announcements';
+import {
+  AnimationQueue,
+  measureBoxes,
+  playFlip,
+  prefersReducedMotion,
+} from '~/lib/match/animation';
+import {createSeed} from '~/lib/match/random';
+import {PLACEHOLDER_CATS} from '~/lib/match/cats';
+import type {SavedGame} from '~/lib/match/progress';
+import type {AnalyticsEvent} from '~/lib/match/analytics';
 
 import {
   Loader2,
   Sparkles,
   MoveHorizontal,
   Undo,
+  Redo,
   RotateCcw,
   Info,
+  Lightbulb,
+  Timer,
+  Lock,
+  Ban,
 } from 'lucide-react';
 
-// Cat type definition
-type Cat = {
-  id: string;
-  name: string;
-  image: string;
-  primaryColor: string;
-  secondaryColor?: string;
-};
-
-// Number of boxes per stack
-const MAX_STACK_SIZE = 4;
-
 // Animation duration in ms
 const ANIMATION_DURATION = 400;
 
-// Position type for CSS
-const POSITION_ABSOLUTE = 'absolute' as const;
-
-// Difficulty levels
-type Difficulty = 'easy' | 'medium' | 'hard';
-
-const DIFFICULTY_CONFIG = {
-  easy: {
-    cats: 4,
-    stacks: 6, // 4 cats + 2 empty
-    emptyStacks: 2,
-    breakupProbability: 0.1, // Very low chance of breaking up same-cat groups
-  },
-  medium: {
-    cats: 6,
-    stacks: 8, // 6 cats + 2 empty
-    emptyStacks: 2,
-    breakupProbability: 0.3, // Lower probability to make it easier
-  },
-  hard: {
-    cats: 8,
-    stacks: 10, // 8 cats + 2 empty
-    emptyStacks: 2,
-    breakupProbability: 0.5, // Medium chance of breaking up same-cat groups
-  },
-};
-
-type CatBox = {
-  id: string;
-  cat: Cat;
-  isMoving?: boolean;
-  targetStack?: number;
-};
-
-type Stack = CatBox[];
+// Pixels a pointer has to travel before a press becomes a drag
+const DRAG_THRESHOLD = 6;
+
+// Height of a box plus its margin, and the room a stack needs around them
+const BOX_HEIGHT = 52;
+const STACK_PADDING = 48;
 
 interface CatSortProps {
-  onComplete?: () => void;
+  // Cats to deal boards from, e.g. products loaded by the route
+  cats?: Cat[];
+  // Receives the winning move list, e.g. to submit it for verification
+  onComplete?: (result: {
+    seed: string;
+    difficulty: Difficulty;
+    mode: GameMode;
+    cats: Cat[];
+    // The board as it was dealt, before the first move
+    board: GameState;
+    moves: Move[];
+    hintsUsed: number;
+    score: number;
+    // Milliseconds since the board was dealt or restored
+    duration: number;
+  }) => void;
+  // Called with the seed of every board dealt by a reset, difficulty or mode
+  // change
+  onNewGame?: (game: {
+    seed: string;
+    difficulty: Difficulty;
+    mode: GameMode;
+  }) => void;
   className?: string;
   initialDifficulty?: Difficulty;
+  initialMode?: GameMode;
+  // Rules to deal and play by instead of a difficulty preset, e.g. a level
+  // from a level pack
+  level?: LevelConfig;
+  // `instant` skips move animations, e.g. for tests and replays. They are
+  // skipped anyway when the player prefers reduced motion.
+  animation?: 'smooth' | 'instant';
+  seed?: string;
+  // Pins the board: Reset restarts it and the difficulty and mode cannot
+  // change
+  locked?: boolean;
+  // Unfinished game the player is offered to continue
+  savedGame?: SavedGame | null;
+  // Called after every move with the game to save, or `null` once it ends
+  onProgress?: (game: SavedGame | null) => void;
+  // Receives game starts, moves, undos, resets, wins and losses, e.g. for
+  // analytics
+  onEvent?: (event: AnalyticsEvent) => void;
+  // Called with the moves on the board whenever they change, e.g. to show
+  // an opponent the progress of a race
+  onMovesChange?: (moves: Move[]) => void;
 }
 
 export function CatSort({
+  cats = PLACEHOLDER_CATS,
   onComplete,
+  onNewGame,
   className,
   initialDifficulty = 'medium',
+  initialMode = 'classic',
+  level,
+  animation = 'smooth',
+  seed: initialSeed,
+  locked = false,
+  savedGame,
+  onProgress,
+  onEvent,
+  onMovesChange,
 }: CatSortProps) {
-  const [stacks, setStacks] = useState<Stack[]>([]);
+  const [initialGame, setInitialGame] = useState<GameState>({
+    cats: [],
+    stacks: [],
+    stackSize: DEFAULT_STACK_SIZE,
+    stackKinds: [],
+  });
+  const [game, setGame] = useState<GameState>(initialGame);
   const [selectedStackIndex, setSelectedStackIndex] = useState<number | null>(
     null,
   );
-  const [moveCount, setMoveCount] = useState(0);
   const [isComplete, setIsComplete] = useState(false);
-  const [isLost, setIsLost] = useState(false);
-  const [moves, setMoves] = useState<
-    {from: number; to: number; count: number}[]
-  >([]);
-  const [animatingBoxes, setAnimatingBoxes] = useState<
-    {id: string; fromStack: number; toStack: number}[]
-  >([]);
+  const [lossReason, setLossReason] = useState<LossReason | null>(null);
+  const [history, setHistory] = useState<MoveHistory>(EMPTY_HISTORY);
+  const [optimalMoves, setOptimalMoves] = useState<number | null>(null);
+  const [hint, setHint] = useState<Move | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  // Why the last hint asked for could not be given
+  const [hintProblem, setHintProblem] = useState<
+    'unsolvable' | 'gaveUp' | null
+  >(null);
+  const [isHintLoading, setIsHintLoading] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   const [difficulty, setDifficulty] = useState<Difficulty>(initialDifficulty);
-  const [activeCats, setActiveCats] = useState<Cat[]>([]);
-  const [loading, setLoading] = useState(false);
-
-  // Reference to stack elements for position calculation
+  const [mode, setMode] = useState<GameMode>(initialMode);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [seed, setSeed] = useState(() => initialSeed ?? createSeed());
+  const [pendingSavedGame, setPendingSavedGame] = useState<SavedGame | null>(
+    null,
+  );
+  // Stack that takes keyboard focus when tabbing into the board
+  const [focusedStackIndex, setFocusedStackIndex] = useState(0);
+  // Latest message for screen readers
+  const [announcement, setAnnouncement] = useState('');
+  // Offset of the group being dragged from its stack
+  const [dragOffset, setDragOffset] = useState<{
+    from: number;
+    dx: number;
+    dy: number;
+  } | null>(null);
+
+  const {stacks} = game;
+  const config = level ?? DIFFICULTY_CONFIG[difficulty];
+  const moveCount = history.position;
+  const isLost = lossReason !== null;
+  const isTakeBackAllowed = canTakeBack(mode) && lossReason !== 'timeUp';
+
+  // Reference to stack elements for keyboard focus
   const stackRefs = useRef<(HTMLDivElement | null)[]>([]);
 
-  const images = [
-    'https://img.freepik.com/free-vector/cute-cat-stretching-cartoon-vector-icon-illustration-animal-nature-icon-isolated-flat-vector_138676-13782.jpg',
-    'https://img.freepik.com/free-vector/cute-cat-with-love-sign-hand-cartoon-illustration-animal-nature-concept-isolated-flat-cartoon-style_138676-3419.jpg',
-    'https://img.freepik.com/premium-vector/vector-illustration-cute-cat-kids-story-book_925324-13973.jpg',
-    'https://img.freepik.com/premium-vector/cute-cat-sitting-cartoon-vector-illustration_9845-584.jpg',
-    'https://img.freepik.com/free-vector/cute-cat-hole-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-vector-flat-cartoon-style_138676-4236.jpg',
-    'https://img.freepik.com/premium-vector/cute-kawaii-smiling-cat-animal-pet-logo-vector-icon-illustration-flat-style_126068-94.jpg',
-    'https://img.freepik.com/free-vector/cute-cat-sitting-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-flat_138676-4556.jpg',
-    'https://img.freepik.com/free-vector/cute-cat-playing-pow-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-vector-flat-cartoon-style_138676-4074.jpg',
-  ];
-  // Create placeholder cats to use
-  const placeholderCats: Cat[] = Array(8)
-    .fill(null)
-    .map((_, i) => ({
-      id: `cat-${i}`,
-      name: [
-        `Whiskers`,
-        `Mittens`,
-        `Fluffy`,
-        `Shadow`,
-        `Luna`,
-        `Oliver`,
-        `Leo`,
-        `Bella`,
-      ][i],
-      image: images[i], // Slight variation in each cat image
-      primaryColor: [
-        '#f39c12',
-        '#3498db',
-        '#2ecc71',
-        '#9b59b6',
-        '#e74c3c',
-        '#1abc9c',
-        '#f1c40f',
-        '#34495e',
-      ][i],
-      secondaryColor: [
-        '#e67e22',
-        '#2980b9',
-        '#27ae60',
-        '#8e44ad',
-        '#c0392b',
-        '#16a085',
-        '#f39c12',
-        '#2c3e50',
-      ][i],
-    }));
-
-  // Update configuration when difficulty changes or cats are loaded
-  useEffect(() => {
-    if (loading) return;
-
-    const config = DIFFICULTY_CONFIG[difficulty];
-
-    // Use placeholder cats directly instead of trying to map over empty array
-    const availableCats = placeholderCats;
+  // Board element the boxes are measured in for animations
+  const boardRef = useRef<HTMLDivElement | null>(null);
 
-    // Shuffle and randomly select cats for this game
-    const shuffledCats = shuffleArray(availableCats);
-    const gameCats = shuffledCats.slice(0, config.cats);
+  // The board as last committed. Queued moves read it when they run, not
+  // when they were queued, so they never act on a stale board.
+  const gameRef = useRef(game);
+  const historyRef = useRef(history);
 
-    setActiveCats(gameCats);
+  // Serializes moves and their animations
+  const queueRef = useRef<AnimationQueue | null>(null);
+  queueRef.current ??= new AnimationQueue(setIsAnimating);
 
-    // Initialize game with new settings
-    initializeGame(gameCats, config);
+  // Saved game to replay once its board has been dealt
+  const restoreRef = useRef<SavedGame | null>(null);
 
-    // Initialize stack refs array
-    stackRefs.current = Array(config.stacks).fill(null);
-  }, [difficulty, loading]);
-
-  // Helper function to shuffle an array (Fisher-Yates algorithm)
-  const shuffleArray = <T,>(array: T[]): T[] => {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-
-  // Initialize the game with a solvable but challenging configuration
-  const initializeGame = (
-    availableCats: Cat[] = activeCats,
-    config = DIFFICULTY_CONFIG[difficulty],
-  ) => {
-    if (!availableCats.length) return;
-
-    // Create boxes (4 of each cat)
-    const allBoxes: CatBox[] = [];
-    availableCats.forEach((cat) => {
-      for (let i = 0; i < MAX_STACK_SIZE; i++) {
-        allBoxes.push({
-          id: `${cat.id}-${i}`,
-          cat: cat,
-        });
-      }
-    });
-
-    // Thoroughly shuffle all boxes
-    const shuffledBoxes = [...allBoxes].sort(() => Math.random() - 0.5);
+  // Stops the hint search once the board it was asked about changes
+  const hintSearchRef = useRef<AbortController | null>(null);
 
-    // Create stacks
-    const newStacks: Stack[] = [];
+  // When the current board went on screen, to time the solve
+  const startedAtRef = useRef(Date.now());
 
-    // Calculate boxes per stack (excluding empty stacks)
-    const filledStacks = config.stacks - config.emptyStacks;
-
-    // Ensure even distribution - no stack should have more than MAX_STACK_SIZE boxes
-    // This is crucial for solvability
-    const boxesPerStack = Math.min(
-      MAX_STACK_SIZE,
-      Math.ceil(allBoxes.length / filledStacks),
-    );
+  // When the clock runs out in time attack
+  const deadlineRef = useRef(Date.now());
 
-    // For easier gameplay, we'll create some pre-matched patterns based on difficulty
-    const preMatchedPairs =
-      difficulty === 'easy' ? 4 : difficulty === 'medium' ? 3 : 2;
+  // Pointer press that may turn into a drag
+  const dragRef = useRef<{
+    from: number;
+    pointerId: number;
+    startX: number;
+    startY: number;
+    isDragging: boolean;
+  } | null>(null);
 
-    // Group some boxes of the same cat for easier starting patterns
-    const organizedBoxes: CatBox[] = [];
-    const remainingBoxes: CatBox[] = [...shuffledBoxes];
+  // A finished drag also fires a click, which must not select the stack
+  const suppressClickRef = useRef(false);
 
-    // Create some pairs/triplets of the same cat to make it easier
-    for (let i = 0; i < preMatchedPairs && remainingBoxes.length > 0; i++) {
-      // Find boxes of the same cat
-      const boxIndex = Math.floor(Math.random() * remainingBoxes.length);
-      const catId = remainingBoxes[boxIndex].cat.id;
+  // Follow boards picked outside the component, e.g. a shared link
+  useEffect(() => {
+    if (initialSeed) setSeed(initialSeed);
+  }, [initialSeed]);
 
-      // Find all boxes of this cat
-      const samecatBoxes = remainingBoxes.filter((box) => box.cat.id === catId);
+  useEffect(() => {
+    setDifficulty(initialDifficulty);
+  }, [initialDifficulty]);
 
-      // Take 2-3 of them if available
-      const pairSize = Math.min(3, samecatBoxes.length);
-      const selectedBoxes = samecatBoxes.slice(0, pairSize);
+  useEffect(() => {
+    setMode(initialMode);
+  }, [initialMode]);
 
-      // Add them to organized boxes
-      organizedBoxes.push(...selectedBoxes);
+  useEffect(() => {
+    if (!locked) setPendingSavedGame(savedGame ?? null);
+  }, [savedGame, locked]);
 
-      // Remove from remaining boxes
-      selectedBoxes.forEach((box) => {
-        const idx = remainingBoxes.findIndex((b) => b.id === box.id);
-        if (idx !== -1) remainingBoxes.splice(idx, 1);
+  // Report progress so the game survives reloads. Only classic games are
+  // saved, as the other modes cannot be paused.
+  useEffect(() => {
+    if (!onProgress || locked || mode !== 'classic') return;
+
+    if (isComplete) {
+      onProgress(null);
+    } else if (history.moves.length > 0) {
+      onProgress({
+        seed,
+        difficulty,
+        moves: getAppliedMoves(history),
+        hintsUsed,
+        savedAt: new Date().toISOString(),
       });
     }
+  }, [history, hintsUsed, isComplete]);
 
-    // Mix organized boxes with remaining shuffled boxes
-    const mixedBoxes = [...organizedBoxes, ...remainingBoxes];
+  useEffect(() => {
+    onMovesChange?.(getAppliedMoves(history));
+  }, [history]);
 
-    // First attempt: Create filled stacks ensuring no stack has more than MAX_STACK_SIZE boxes
-    for (let i = 0; i < filledStacks; i++) {
-      const stack: Stack = [];
-      for (let j = 0; j < boxesPerStack; j++) {
-        const boxIndex = i * boxesPerStack + j;
-        if (boxIndex < mixedBoxes.length) {
-          stack.push(mixedBoxes[boxIndex]);
-        }
-      }
-      newStacks.push(stack);
-    }
+  // A hint search has nothing to report once the board is gone
+  useEffect(() => () => hintSearchRef.current?.abort(), []);
 
-    // Check if there are any leftover boxes and distribute them evenly
-    // This handles cases where the last stack didn't get all its boxes
-    const leftoverBoxes = mixedBoxes.slice(filledStacks * boxesPerStack);
-    let stackIndex = 0;
+  // Loader data hands over a new array on every revalidation, so only a
+  // different set of cats should deal a new board
+  const catsKey = cats.map((cat) => cat.id).join(',');
+  const levelKey = JSON.stringify(level ?? null);
 
-    while (leftoverBoxes.length > 0 && stackIndex < filledStacks) {
-      // Only add if the stack isn't already full
-      if (newStacks[stackIndex].length < MAX_STACK_SIZE) {
-        newStacks[stackIndex].push(leftoverBoxes.shift()!);
-      }
-      stackIndex = (stackIndex + 1) % filledStacks;
-    }
+  // Update configuration when the seed, difficulty, level, mode or cats
+  // change
+  useEffect(() => {
+    initializeGame();
+  }, [seed, difficulty, levelKey, mode, catsKey]);
 
-    // Add empty stacks for maneuvering
-    for (let i = 0; i < config.emptyStacks; i++) {
-      newStacks.push([]);
+  // Run the countdown of time attack until the board is won or lost
+  useEffect(() => {
+    if (mode !== 'timeAttack' || isComplete || isLost || !stacks.length) {
+      return;
     }
 
-    // To make the puzzle challenging based on difficulty:
-
-    // For easy mode, try to create a few more patterns of same-cat boxes together
-    if (difficulty === 'easy') {
-      // Group same-cat boxes together within stacks
-      for (let i = 0; i < filledStacks; i++) {
-        // Sort each stack based on cat to group them
-        if (Math.random() < 0.7) {
-          // 70% chance to create cat groupings
-          newStacks[i].sort((a, b) => a.cat.id.localeCompare(b.cat.id));
-        }
+    const tick = () => {
+      const left = getSecondsLeft();
+      setSecondsLeft(left);
+      if (left === 0) {
+        setLossReason('timeUp');
+        setSelectedStackIndex(null);
+        setHint(null);
       }
-    }
-
-    // 1. Ensure no stack starts with 4 of the same cat for medium/hard
-    if (difficulty !== 'easy') {
-      for (let i = 0; i < filledStacks; i++) {
-        // Shuffle each stack first
-        newStacks[i] = newStacks[i].sort(() => Math.random() - 0.5);
+    };
 
-        // Check if we accidentally created a full stack of the same cat
-        if (newStacks[i].length > 0) {
-          const allSamecat = newStacks[i].every(
-            (box) => box.cat.id === newStacks[i][0].cat.id,
-          );
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [mode, isComplete, isLost, initialGame]);
 
-          // If so, swap a random box with another stack
-          if (allSamecat && newStacks[i].length === MAX_STACK_SIZE) {
-            const randomStackIndex =
-              (i + 1 + Math.floor(Math.random() * (filledStacks - 1))) %
-              filledStacks;
-            const randomBoxIndex = Math.floor(
-              Math.random() * newStacks[randomStackIndex].length,
-            );
-
-            // Swap boxes
-            const temp = newStacks[i][0];
-            newStacks[i][0] = newStacks[randomStackIndex][randomBoxIndex];
-            newStacks[randomStackIndex][randomBoxIndex] = temp;
-          }
-        }
-      }
+  // Tell screen readers how the game ended
+  useEffect(() => {
+    if (isComplete) {
+      setAnnouncement(`Puzzle solved in ${moveCount} moves!`);
+    } else if (lossReason === 'timeUp') {
+      setAnnouncement("Time's up!");
+    } else if (lossReason === 'outOfMoves') {
+      setAnnouncement('Out of moves!');
+    } else if (lossReason === 'deadEnd') {
+      setAnnouncement('No more moves available!');
     }
+  }, [isComplete, lossReason]);
 
-    // 2. Break up consecutive same-cat boxes based on difficulty
-    for (let i = 0; i < filledStacks; i++) {
-      for (let j = 1; j < newStacks[i].length; j++) {
-        // If we find consecutive same-cat boxes, maybe break them up
-        if (
-          newStacks[i][j].cat.id === newStacks[i][j - 1].cat.id &&
-          Math.random() < config.breakupProbability
-        ) {
-          // Find a different stack to swap with
-          const randomStackIndex =
-            (i + 1 + Math.floor(Math.random() * (filledStacks - 1))) %
-            filledStacks;
-          if (newStacks[randomStackIndex].length > 0) {
-            const randomBoxIndex = Math.floor(
-              Math.random() * newStacks[randomStackIndex].length,
-            );
-
-            // Swap boxes
-            const temp = newStacks[i][j];
-            newStacks[i][j] = newStacks[randomStackIndex][randomBoxIndex];
-            newStacks[randomStackIndex][randomBoxIndex] = temp;
-          }
-        }
-      }
-    }
+  useEffect(() => {
+    if (!lossReason) return;
+
+    onEvent?.({
+      type: 'loss',
+      seed,
+      reason: lossReason,
+      moveCount,
+      duration: Date.now() - startedAtRef.current,
+    });
+  }, [lossReason]);
+
+  const getSecondsLeft = () =>
+    Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000));
+
+  // Deal the solver-verified board for the current seed
+  const initializeGame = () => {
+    const puzzle = generatePuzzle(cats, config, seed);
+
+    // Pick up where a saved game left off if it belongs to this board
+    const restored = restoreRef.current;
+    restoreRef.current = null;
+    const restoredHistory =
+      restored?.seed === seed && restored.difficulty === difficulty
+        ? {moves: restored.moves, position: restored.moves.length}
+        : EMPTY_HISTORY;
+    const currentGame = getStateAt(puzzle.state, restoredHistory);
+
+    // Moves queued for the previous board must not land on this one
+    queueRef.current!.clear();
+    gameRef.current = currentGame;
+    historyRef.current = restoredHistory;
+
+    setInitialGame(puzzle.state);
+    setGame(currentGame);
+    setOptimalMoves(puzzle.optimalMoves);
+    setSelectedStackIndex(null);
+    setIsComplete(false);
+    setLossReason(isDeadEnd(currentGame) ? 'deadEnd' : null);
+    setHistory(restoredHistory);
+    cancelHint();
+    setHintsUsed(restoredHistory === EMPTY_HISTORY ? 0 : restored!.hintsUsed);
+    setFocusedStackIndex(0);
+    setDragOffset(null);
+    dragRef.current = null;
+    startedAtRef.current = Date.now();
+    deadlineRef.current = startedAtRef.current + TIME_LIMITS[difficulty] * 1000;
+    setSecondsLeft(TIME_LIMITS[difficulty]);
 
-    // Verify puzzle solvability by ensuring:
-    // 1. No stack has more than MAX_STACK_SIZE boxes
-    // 2. The number of boxes of each cat is at most MAX_STACK_SIZE
+    // Initialize stack refs array
+    stackRefs.current = Array(config.stacks).fill(null);
 
-    // Count boxes of each cat
-    const catCounts: Record<string, number> = {};
-    let oversizedStacks = false;
+    onEvent?.({type: 'game_start', seed, difficulty, mode});
+  };
 
-    // Check stack sizes and count cats
-    newStacks.forEach((stack) => {
-      if (stack.length > MAX_STACK_SIZE) {
-        oversizedStacks = true;
-      }
+  /**
+   * Queues a change of the board. `getNext` runs once every earlier change
+   * has landed and returns the board to show, or `null` when the change no
+   * longer applies. Boxes then slide from where they were to their new
+   * slots (FLIP): measure, commit, and animate the difference.
+   */
+  const animateBoard = (
+    getNext: (
+      game: GameState,
+      history: MoveHistory,
+    ) => {game: GameState; history: MoveHistory} | null,
+    {instant = false} = {},
+  ) => {
+    queueRef.current!.enqueue(async () => {
+      // Nothing moves once the board is solved
+      if (isSolved(gameRef.current)) return;
 
-      stack.forEach((box) => {
-        if (!catCounts[box.cat.id]) {
-          catCounts[box.cat.id] = 0;
-        }
-        catCounts[box.cat.id]++;
-      });
-    });
+      const next = getNext(gameRef.current, historyRef.current);
+      if (!next) return;
 
-    // Check if any cat has more than MAX_STACK_SIZE boxes
-    const tooManyBoxesOfOnecat = Object.values(catCounts).some(
-      (count) => count > MAX_STACK_SIZE,
-    );
+      const board = boardRef.current;
+      const skipAnimation =
+        instant || animation === 'instant' || prefersReducedMotion() || !board;
+      const before = skipAnimation ? null : measureBoxes(board);
 
-    // If either check fails, regenerate the puzzle
-    if (oversizedStacks || tooManyBoxesOfOnecat) {
-      console.log('Generated an invalid puzzle. Regenerating...');
-      return initializeGame(availableCats, config); // Recursively try again
-    }
+      flushSync(() => {
+        cancelHint();
+        showBoard(next.game, next.history);
+      });
 
-    setStacks(newStacks);
-    setSelectedStackIndex(null);
-    setMoveCount(0);
-    setIsComplete(false);
-    setIsLost(false);
-    setMoves([]);
-    setAnimatingBoxes([]);
-    setIsAnimating(false);
+      if (before) await playFlip(board!, before, ANIMATION_DURATION);
+    });
   };
 
-  // Get all matching boxes from the top of a stack
-  const getMatchingTopBoxes = (stack: Stack): Stack => {
-    if (stack.length === 0) return [];
+  // Put a board on screen and work out whether it is won or lost
+  const showBoard = (nextGame: GameState, nextHistory: MoveHistory) => {
+    gameRef.current = nextGame;
+    historyRef.current = nextHistory;
+    setGame(nextGame);
+    setHistory(nextHistory);
 
-    const topBox = stack[0]; // Now the top box is at index 0
-    const matchingGroup: Stack = [topBox];
+    const complete = isSolved(nextGame);
+    setIsComplete(complete);
 
-    // Check boxes from top to bottom for matches
-    for (let i = 1; i < stack.length; i++) {
-      if (stack[i].cat.id === topBox.cat.id) {
-        matchingGroup.push(stack[i]);
-      } else {
-        break; // Stop when we find a non-matching cat
-      }
+    // A move started before the clock ran out still counts
+    if (complete) {
+      setLossReason(null);
+    } else if (mode === 'timeAttack' && getSecondsLeft() === 0) {
+      setLossReason('timeUp');
+    } else {
+      setLossReason(
+        getLossReason(nextGame, {
+          mode,
+          moves: nextHistory.position,
+          optimalMoves: optimalMoves ?? Infinity,
+        }),
+      );
     }
 
-    return matchingGroup;
+    if (complete) {
+      const moves = getAppliedMoves(nextHistory);
+      const timeLeft = getSecondsLeft();
+      setSecondsLeft(timeLeft);
+
+      onEvent?.({
+        type: 'win',
+        seed,
+        difficulty,
+        mode,
+        moveCount: moves.length,
+        duration: Date.now() - startedAtRef.current,
+        hintsUsed,
+      });
+      onComplete?.({
+        seed,
+        difficulty,
+        mode,
+        cats: nextGame.cats,
+        board: initialGame,
+        moves,
+        hintsUsed,
+        score: calculateScore({
+          moves: moves.length,
+          optimalMoves: optimalMoves ?? moves.length,
+          hintsUsed,
+          mode,
+          secondsLeft: timeLeft,
+        }),
+        duration: Date.now() - startedAtRef.current,
+      });
+    }
   };
 
-  // Check if the game is complete (each stack has only one cat or is empty)
-  const checkCompletion = (currentStacks: Stack[]) => {
-    // First check: each non-empty stack must have only one cat
-    const eachStackValid = currentStacks.every((stack) => {
-      if (stack.length === 0) return true; // Empty stacks are fine
-
-      // Check if all boxes in this stack are the same cat
-      const firstcatId = stack[0].cat.id;
-      return stack.every((box) => box.cat.id === firstcatId);
-    });
-
-    // If basic check fails, no need to continue
-    if (!eachStackValid) {
-      setIsComplete(false);
-      return false;
+  // Handle stack click
+  const handleStackClick = (stackIndex: number) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
     }
+    if (isComplete || isLost) return;
 
-    // Second check: each cat should be in exactly one stack with MAX_STACK_SIZE boxes
-    const catMap: Record<string, number> = {};
-
-    // Count boxes of each cat in play
-    activeCats.forEach((cat) => {
-      catMap[cat.id] = 0;
-    });
-
-    // Count how many boxes of each cat exist in the stacks
-    currentStacks.forEach((stack) => {
-      if (stack.length > 0) {
-        const stackcatId = stack[0].cat.id;
-        // Only count if it's a valid cat in our game
-        if (catMap[stackcatId] !== undefined) {
-          // If we already found a stack with this cat and it was complete,
-          // this means the cat is split across multiple stacks
-          if (catMap[stackcatId] === MAX_STACK_SIZE) {
-            // cat appears in multiple stacks, which means it's not properly sorted
-            catMap[stackcatId] = -1; // Mark as invalid
-          } else {
-            catMap[stackcatId] = stack.length;
-          }
-        }
+    // If no stack is selected, select this one (if it has boxes)
+    if (selectedStackIndex === null) {
+      if (stacks[stackIndex].length > 0) {
+        setSelectedStackIndex(stackIndex);
+        setAnnouncement(`Picked up from ${describeStack(game, stackIndex)}`);
       }
-    });
+      return;
+    }
 
-    // Check if each cat has exactly MAX_STACK_SIZE boxes in a single stack
-    const allcatsComplete = Object.values(catMap).every(
-      (count) => count === MAX_STACK_SIZE,
-    );
+    const fromStackIndex = selectedStackIndex;
 
-    // The puzzle is complete only if both conditions are met
-    const complete = eachStackValid && allcatsComplete;
+    // Clear selection whether or not the move goes through
+    setSelectedStackIndex(null);
 
-    setIsComplete(complete);
-    if (complete && onComplete) {
-      onComplete();
+    if (fromStackIndex === stackIndex) {
+      setAnnouncement(`Put back on stack ${stackIndex + 1}`);
+      return;
     }
 
-    return complete;
+    moveBoxes(fromStackIndex, stackIndex);
   };
 
-  // Check if there are any valid moves available
-  const checkForValidMoves = (currentStacks: Stack[]) => {
-    // If any stack is empty, moves are possible
-    if (currentStacks.some((stack) => stack.length === 0)) {
-      return true;
-    }
+  // Play a move picked by click, keyboard or drag once earlier moves landed
+  const moveBoxes = (fromStackIndex: number, toStackIndex: number) => {
+    animateBoard((current, currentHistory) => {
+      if (!canMove(current, fromStackIndex, toStackIndex)) {
+        setAnnouncement(
+          `Cannot move onto ${describeStack(current, toStackIndex)}`,
+        );
+        return null;
+      }
 
-    // Check each source stack
-    for (
-      let fromStackIndex = 0;
-      fromStackIndex < currentStacks.length;
-      fromStackIndex++
-    ) {
-      const sourceStack = currentStacks[fromStackIndex];
-      if (sourceStack.length === 0) continue;
-
-      // Get matching boxes from the top of this stack
-      const matchingBoxes = getMatchingTopBoxes(sourceStack);
-
-      // Check each potential destination stack
-      for (
-        let toStackIndex = 0;
-        toStackIndex < currentStacks.length;
-        toStackIndex++
-      ) {
-        if (fromStackIndex === toStackIndex) continue;
-
-        const destStack = currentStacks[toStackIndex];
-
-        // Check if we can move to this stack
-        if (destStack.length + matchingBoxes.length <= MAX_STACK_SIZE) {
-          // If destination is empty, move is valid
-          if (destStack.length === 0) {
-            return true;
-          }
-
-          // If destination has same cat on top, move is valid
-          if (destStack[0].cat.id === matchingBoxes[0].cat.id) {
-            return true;
-          }
-        }
+      const {state, move} = applyMove(current, fromStackIndex, toStackIndex);
+      const nextHistory = pushMove(currentHistory, move);
+      setAnnouncement(describeMove(current, move));
+      onEvent?.({
+        type: 'move',
+        seed,
+        ...move,
+        moveCount: nextHistory.position,
+      });
+      return {game: state, history: nextHistory};
+    });
+  };
+
+  // Arrow keys, Home and End move the focus between stacks, Enter or Space
+  // picks up and drops, number keys do both for the stack with that number
+  const handleBoardKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const count = stacks.length;
+    let nextIndex: number | null = null;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        nextIndex = (focusedStackIndex - 1 + count) % count;
+        break;
+      case 'ArrowRight':
+      case 'ArrowDown':
+        nextIndex = (focusedStackIndex + 1) % count;
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = count - 1;
+        break;
+      case 'Enter':
+      case ' ':
+        handleStackClick(focusedStackIndex);
+        break;
+      case 'Escape':
+        if (selectedStackIndex === null) return;
+        setSelectedStackIndex(null);
+        setAnnouncement(`Put back on stack ${selectedStackIndex + 1}`);
+        break;
+      default: {
+        // 1–9 pick stacks one to nine, 0 picks stack ten
+        if (!/^[0-9]$/.test(event.key)) return;
+        const index = (Number(event.key) + 9) % 10;
+        if (index >= count) return;
+        nextIndex = index;
+        handleStackClick(index);
       }
     }
 
-    // No valid moves found
-    return false;
+    event.preventDefault();
+
+    if (nextIndex !== null) {
+      setFocusedStackIndex(nextIndex);
+      stackRefs.current[nextIndex]?.focus();
+    }
   };
 
-  // Animate boxes moving between stacks
-  const animateBoxMovement = (
-    boxIds: string[],
-    fromStackIndex: number,
-    toStackIndex: number,
+  // Start tracking a press that may become a drag of the top group
+  const handlePointerDown = (
+    event: PointerEvent<HTMLDivElement>,
+    stackIndex: number,
   ) => {
-    setIsAnimating(true);
+    if (isComplete || isLost || event.button !== 0) return;
+    if (stacks[stackIndex].length === 0) return;
+
+    dragRef.current = {
+      from: stackIndex,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      isDragging: false,
+    };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
 
-    // Mark which boxes are animating
-    const animBoxes = boxIds.map((id) => ({
-      id,
-      fromStack: fromStackIndex,
-      toStack: toStackIndex,
-    }));
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
 
-    setAnimatingBoxes(animBoxes);
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
 
-    // After animation completes, update the actual stacks
-    setTimeout(() => {
-      // Copy current stacks
-      const newStacks = [...stacks];
+    if (!drag.isDragging) {
+      if (Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      drag.isDragging = true;
+      setSelectedStackIndex(null);
+    }
 
-      // Get the group of matching boxes from the top of the source stack
-      const sourceStack = newStacks[fromStackIndex];
-      const matchingBoxes = getMatchingTopBoxes(sourceStack);
+    setDragOffset({from: drag.from, dx, dy});
+  };
 
-      // Remove them from source
-      newStacks[fromStackIndex] = sourceStack.slice(matchingBoxes.length);
+  // Drop the dragged group on the stack under the pointer
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
 
-      // Add to destination (at the beginning for top-down stacking)
-      newStacks[toStackIndex] = [...matchingBoxes, ...newStacks[toStackIndex]];
+    dragRef.current = null;
+    setDragOffset(null);
 
-      // Update state
-      setStacks(newStacks);
-      setAnimatingBoxes([]);
-      setIsAnimating(false);
+    if (!drag.isDragging) return;
+    suppressClickRef.current = true;
 
-      // Check completion
-      const isGameComplete = checkCompletion(newStacks);
+    const target = document
+      .elementFromPoint(event.clientX, event.clientY)
+      ?.closest<HTMLElement>('[data-stack-index]');
+    const toStackIndex = Number(target?.dataset.stackIndex);
 
-      // If not complete, check if there are any valid moves
-      if (!isGameComplete) {
-        const hasValidMoves = checkForValidMoves(newStacks);
-        if (!hasValidMoves) {
-          setIsLost(true);
-        }
-      }
-    }, ANIMATION_DURATION);
+    if (target && toStackIndex !== drag.from) {
+      moveBoxes(drag.from, toStackIndex);
+    }
   };
 
-  // Handle stack click
-  const handleStackClick = (stackIndex: number) => {
-    if (isComplete || isLost || isAnimating) return;
+  const handlePointerCancel = () => {
+    dragRef.current = null;
+    setDragOffset(null);
+  };
 
-    // If no stack is selected, select this one (if it has boxes)
-    if (selectedStackIndex === null) {
-      if (stacks[stackIndex].length > 0) {
-        setSelectedStackIndex(stackIndex);
-      }
+  // Lift the dragged group off its stack and follow the pointer
+  const getDraggedBoxStyle = (): CSSProperties =>
+    dragOffset
+      ? {
+          transform: `translate(${dragOffset.dx}px, ${dragOffset.dy}px)`,
+          zIndex: 50,
+          transition: 'none',
+        }
+      : {};
+
+  // Drop the hint on screen and any search for one
+  const cancelHint = () => {
+    hintSearchRef.current?.abort();
+    hintSearchRef.current = null;
+    setHint(null);
+    setHintProblem(null);
+    setIsHintLoading(false);
+  };
+
+  // Highlight the first move of a shortest solution from here
+  const showHint = async () => {
+    if (isComplete || isLost || isAnimating || hint || isHintLoading) return;
+    if (hintsUsed >= config.hints) return;
+
+    const search = new AbortController();
+    hintSearchRef.current = search;
+    setHintProblem(null);
+    setIsHintLoading(true);
+
+    // The search pauses now and then so the board stays responsive
+    const result = await getHint(game, {signal: search.signal});
+    if (!result || search.signal.aborted) return;
+
+    hintSearchRef.current = null;
+    setIsHintLoading(false);
+
+    // A board with moves left may still be unwinnable, or too hard to
+    // search; neither costs a hint
+    const nextMove = result.move;
+    if (!nextMove) {
+      setHintProblem(result.reason);
+      return;
     }
-    // If a stack is already selected (including this one), try to move boxes
-    else {
-      const fromStackIndex = selectedStackIndex;
 
-      // Can't move to the same stack
-      if (fromStackIndex === stackIndex) {
-        setSelectedStackIndex(null);
-        return;
-      }
+    setSelectedStackIndex(null);
+    setHint(nextMove);
+    setHintsUsed((prev) => prev + 1);
+    setAnnouncement(
+      `Hint: move from stack ${nextMove.from + 1} to stack ${nextMove.to + 1}`,
+    );
+  };
 
-      // Get the group of matching boxes from the top of the source stack
-      const sourceStack = stacks[fromStackIndex];
-      const matchingBoxes = getMatchingTopBoxes(sourceStack);
-
-      // Determine if we can place these boxes on the destination stack
-      const destinationStack = stacks[stackIndex];
-
-      // Check if there's room in the destination stack
-      if (destinationStack.length + matchingBoxes.length <= MAX_STACK_SIZE) {
-        // If destination is not empty, check if the top box cat matches
-        if (destinationStack.length > 0) {
-          const destTopBox = destinationStack[0]; // Top box is now at index 0
-          // Can only place matching cats on top of matching cats
-          if (
-            destTopBox.cat.id !== matchingBoxes[0].cat.id &&
-            destinationStack.length > 0
-          ) {
-            setSelectedStackIndex(null);
-            return;
-          }
-        }
+  // Undo the last move, including the one that led into a dead end
+  const undoMove = () => {
+    if (isComplete || !isTakeBackAllowed) return;
 
-        // Increment move count
-        setMoveCount((prev) => prev + 1);
+    setSelectedStackIndex(null);
 
-        // Record the move
-        setMoves([
-          ...moves,
-          {
-            from: fromStackIndex,
-            to: stackIndex,
-            count: matchingBoxes.length,
-          },
-        ]);
+    // Losing a board is worked out again once the move is reverted
+    animateBoard((current, currentHistory) => {
+      if (!canUndo(currentHistory)) return null;
 
-        // Get the box IDs for animation
-        const boxIds = matchingBoxes.map((box) => box.id);
+      const lastMove = currentHistory.moves[currentHistory.position - 1];
+      setAnnouncement(`Undid move from stack ${lastMove.from + 1}`);
+      onEvent?.({
+        type: 'undo',
+        seed,
+        moveCount: currentHistory.position - 1,
+      });
+      return {
+        game: revertMove(current, lastMove),
+        history: jumpTo(currentHistory, currentHistory.position - 1),
+      };
+    });
+  };
 
-        // Start animation
-        animateBoxMovement(boxIds, fromStackIndex, stackIndex);
+  // Play the next move of the redo stack again
+  const redoMove = () => {
+    if (isComplete || !isTakeBackAllowed) return;
 
-        // Clear selection
-        setSelectedStackIndex(null);
-      } else {
-        // Not enough room
-        setSelectedStackIndex(null);
-      }
-    }
-  };
+    setSelectedStackIndex(null);
 
-  // Undo the last move
-  const undoMove = () => {
-    if (moves.length === 0 || isComplete || isAnimating) return;
+    animateBoard((current, currentHistory) => {
+      if (!canRedo(currentHistory)) return null;
 
-    const lastMove = moves[moves.length - 1];
+      const nextMove = currentHistory.moves[currentHistory.position];
+      setAnnouncement(`Redid: ${describeMove(current, nextMove)}`);
+      return {
+        game: applyMove(current, nextMove.from, nextMove.to).state,
+        history: jumpTo(currentHistory, currentHistory.position + 1),
+      };
+    });
+  };
 
-    // Get the boxes that need to move back
-    const boxesToMoveBack = stacks[lastMove.to].slice(0, lastMove.count);
-    const boxIds = boxesToMoveBack.map((box) => box.id);
+  // Jump straight to any earlier or later point of the move timeline
+  const handleTimelineChange = (position: number) => {
+    if (isComplete || !isTakeBackAllowed) return;
 
-    // Animation will handle the actual stack update
-    animateBoxMovement(boxIds, lastMove.to, lastMove.from);
+    setSelectedStackIndex(null);
 
-    // Update move count and history
-    setMoveCount((prev) => prev - 1);
-    setMoves(moves.slice(0, -1));
-    setIsComplete(false);
-    setIsLost(false); // Undo should clear the lost state
+    // Scrubbing fires for every step, so skip straight to the result
+    animateBoard(
+      (_, currentHistory) => {
+        const nextHistory = jumpTo(currentHistory, position);
+        return {
+          game: getStateAt(initialGame, nextHistory),
+          history: nextHistory,
+        };
+      },
+      {instant: true},
+    );
   };
 
-  // Calculate position for animating boxes
-  const getAnimatingBoxStyle = (boxId: string): CSSProperties => {
-    const animBox = animatingBoxes.find((box) => box.id === boxId);
-    if (!animBox) return {};
+  // Set the difficulty level
+  const handleSetDifficulty = (newDifficulty: Difficulty) => {
+    startNewGame(newDifficulty);
+  };
 
-    const fromStackEl = stackRefs.current[animBox.fromStack];
-    const toStackEl = stackRefs.current[animBox.toStack];
+  // Switch between classic, time attack and par on a new board
+  const handleSetMode = (newMode: GameMode) => {
+    startNewGame(difficulty, newMode);
+  };
 
-    if (!fromStackEl || !toStackEl) return {};
+  // Roll a new seed so the next board can be shared again
+  const startNewGame = (newDifficulty: Difficulty, newMode = mode) => {
+    const newSeed = createSeed();
 
-    const fromRect = fromStackEl.getBoundingClientRect();
-    const toRect = toStackEl.getBoundingClientRect();
+    setSeed(newSeed);
+    setDifficulty(newDifficulty);
+    setMode(newMode);
+    onNewGame?.({seed: newSeed, difficulty: newDifficulty, mode: newMode});
+  };
 
-    // Calculate the distance between stacks for animation
-    const dx = toRect.left - fromRect.left;
-    const dy = toRect.top - fromRect.top;
+  // Deal the saved board again and replay its moves
+  const continueSavedGame = () => {
+    if (!pendingSavedGame) return;
 
-    return {
-      transform: `translate(${dx}px, ${dy}px)`,
-      zIndex: 50,
-      position: POSITION_ABSOLUTE,
-    };
+    restoreRef.current = pendingSavedGame;
+    setPendingSavedGame(null);
+
+    // Saved games are always classic ones
+    if (
+      pendingSavedGame.seed === seed &&
+      pendingSavedGame.difficulty === difficulty &&
+      mode === 'classic'
+    ) {
+      initializeGame();
+    } else {
+      setSeed(pendingSavedGame.seed);
+      setDifficulty(pendingSavedGame.difficulty);
+      setMode('classic');
+      onNewGame?.({
+        seed: pendingSavedGame.seed,
+        difficulty: pendingSavedGame.difficulty,
+        mode: 'classic',
+      });
+    }
   };
 
-  // Set the difficulty level
-  const handleSetDifficulty = (newDifficulty: Difficulty) => {
-    setDifficulty(newDifficulty);
+  // Throw the saved game away and keep the board on screen
+  const discardSavedGame = () => {
+    setPendingSavedGame(null);
+    onProgress?.(null);
   };
 
   // Get a background color for a cat box
@@ -703,15 +819,18 @@ export function CatSort({
   const handleReset = () => {
     if (isAnimating) return;
 
-    const config = DIFFICULTY_CONFIG[difficulty];
-    // Use placeholder cats
-    const shuffledCats = shuffleArray(placeholderCats);
-    const newCats = shuffledCats.slice(0, config.cats);
-    setActiveCats(newCats);
-    initializeGame(newCats);
+    onEvent?.({type: 'reset', seed, moveCount});
+
+    // A locked board can only be restarted, never re-rolled
+    if (locked) {
+      initializeGame();
+    } else {
+      startNewGame(difficulty);
+    }
   };
 
-  if (loading) {
+  // Boards are dealt on the client, so nothing is on screen until then
+  if (!stacks.length) {
     return (
       <div className="flex justify-center items-center h-64">
         <Loader2 className="h-10 w-10 animate-spin" />
@@ -756,42 +875,69 @@ export function CatSort({
         </TooltipProvider>
       </p>
 
+      {pendingSavedGame && history.moves.length === 0 && (
+        <div className="flex items-center gap-2 mb-4 rounded-lg border px-3 py-2 text-sm">
+          You have an unfinished {pendingSavedGame.difficulty} game (
+          {pendingSavedGame.moves.length} moves).
+          <Button size="sm" className="h-7 px-2" onClick={continueSavedGame}>
+            Continue game
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2"
+            onClick={discardSavedGame}
+          >
+            New game
+          </Button>
+        </div>
+      )}
+
       <div className="flex gap-2 mb-4">
         <div className="text-sm text-gray-500 mr-1">Difficulty:</div>
-        <Button
-          variant={difficulty === 'easy' ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => handleSetDifficulty('easy')}
-          className="text-xs h-7 px-2"
-          disabled={isAnimating}
-        >
-          Easy
-        </Button>
-        <Button
-          variant={difficulty === 'medium' ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => handleSetDifficulty('medium')}
-          className="text-xs h-7 px-2"
-          disabled={isAnimating}
-        >
-          Medium
-        </Button>
-        <Button
-          variant={difficulty === 'hard' ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => handleSetDifficulty('hard')}
-          className="text-xs h-7 px-2"
-          disabled={isAnimating}
-        >
-          Hard
-        </Button>
+        {DIFFICULTIES.map((preset) => (
+          <Button
+            key={preset}
+            variant={difficulty === preset ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleSetDifficulty(preset)}
+            className="text-xs h-7 px-2 capitalize"
+            disabled={isAnimating || locked}
+          >
+            {preset}
+          </Button>
+        ))}
+        <div className="text-sm text-gray-500 ml-3 mr-1">Mode:</div>
+        {GAME_MODES.map((gameMode) => (
+          <Button
+            key={gameMode}
+            variant={mode === gameMode ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => handleSetMode(gameMode)}
+            className="text-xs h-7 px-2"
+            disabled={isAnimating || locked}
+          >
+            {GAME_MODE_LABELS[gameMode]}
+          </Button>
+        ))}
       </div>
 
-      <div className="flex flex-wrap justify-center gap-3 max-w-3xl">
+      <div
+        role="group"
+        aria-label="Cat stacks. Use the arrow keys to choose a stack, Enter to pick up and drop cats, or the number keys to pick a stack directly."
+        ref={boardRef}
+        className="flex flex-wrap justify-center gap-3 max-w-3xl"
+        onKeyDown={handleBoardKeyDown}
+      >
         {stacks.map((stack, stackIndex) => {
           // Calculate matching boxes at the top
           const matchingBoxes =
             selectedStackIndex === stackIndex ? getMatchingTopBoxes(stack) : [];
+          const draggedCount =
+            dragOffset?.from === stackIndex
+              ? getMatchingTopBoxes(stack).length
+              : 0;
+          const stackKind = game.stackKinds[stackIndex];
 
           return (
             <div
@@ -799,31 +945,54 @@ export function CatSort({
               ref={(el) => {
                 stackRefs.current[stackIndex] = el;
               }}
+              role="button"
+              tabIndex={stackIndex === focusedStackIndex ? 0 : -1}
+              aria-label={describeStack(game, stackIndex)}
+              aria-disabled={stackKind === 'blocked' || undefined}
+              aria-pressed={selectedStackIndex === stackIndex}
+              data-stack-index={stackIndex}
               className={cn(
-                'relative w-14 h-64 border-2 border-gray-300 rounded-lg flex flex-col items-center justify-end p-1 transition-all cursor-pointer',
+                'relative w-14 border-2 border-gray-300 rounded-lg flex flex-col items-center justify-end p-1 transition-all cursor-pointer touch-none select-none',
+                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500',
                 selectedStackIndex === stackIndex &&
                   'border-indigo-500 border-dashed ring-2 ring-indigo-300',
+                hint?.from === stackIndex &&
+                  'border-amber-500 ring-2 ring-amber-300',
+                hint?.to === stackIndex &&
+                  'border-amber-500 border-dashed ring-2 ring-amber-300',
                 isLost && 'border-red-300',
                 isComplete && 'border-green-300',
                 stack.length === 0 && 'bg-gray-50',
+                stackKind === 'locked' && 'bg-gray-100 border-gray-400',
+                stackKind === 'blocked' &&
+                  'bg-gray-200 border-gray-200 cursor-not-allowed',
               )}
+              style={{height: game.stackSize * BOX_HEIGHT + STACK_PADDING}}
               onClick={() => handleStackClick(stackIndex)}
+              onFocus={() => setFocusedStackIndex(stackIndex)}
+              onPointerDown={(event) => handlePointerDown(event, stackIndex)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerCancel}
             >
+              {stackKind === 'locked' && (
+                <Lock className="absolute top-1 h-3 w-3 text-gray-400" />
+              )}
+              {stackKind === 'blocked' && (
+                <Ban className="absolute top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+              )}
               {/* Boxes are now stacked from top to bottom */}
               {stack.map((box, boxIndex) => {
                 const isPartOfMatchingGroup =
                   selectedStackIndex === stackIndex &&
                   matchingBoxes.some((matchBox) => matchBox.id === box.id);
 
-                const isAnimating = animatingBoxes.some(
-                  (animBox) => animBox.id === box.id,
-                );
-
                 return (
                   <div
                     key={box.id}
+                    data-box-id={box.id}
                     className={cn(
-                      'w-12 h-12 rounded mb-1 flex items-center justify-center border-2',
+                      'relative w-12 h-12 rounded mb-1 flex items-center justify-center border-2',
                       'transition-all duration-400',
                       isPartOfMatchingGroup &&
                         'ring-2 ring-white scale-105 z-10',
@@ -831,13 +1000,15 @@ export function CatSort({
                     )}
                     style={{
                       ...getCatBoxStyle(box.cat),
-                      ...(isAnimating ? getAnimatingBoxStyle(box.id) : {}),
+                      ...(boxIndex < draggedCount ? getDraggedBoxStyle() : {}),
                     }}
+                    aria-hidden
                   >
                     {/* Cat image */}
                     <img
                       src={box.cat.image}
                       alt={box.cat.name}
+                      draggable={false}
                       width={32}
                       height={32}
                       className="object-contain rounded-full"
@@ -856,19 +1027,62 @@ export function CatSort({
             variant="outline"
             size="sm"
             onClick={undoMove}
-            disabled={
-              moves.length === 0 || (isComplete && !isLost) || isAnimating
-            }
+            disabled={!canUndo(history) || isComplete || !isTakeBackAllowed}
             className="flex items-center gap-1"
           >
             <Undo className="h-3 w-3" />
             Undo
           </Button>
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={redoMove}
+            disabled={!canRedo(history) || isComplete || !isTakeBackAllowed}
+            className="flex items-center gap-1"
+          >
+            <Redo className="h-3 w-3" />
+            Redo
+          </Button>
+
           <Badge variant="outline" className="px-2 py-1">
             Moves: {moveCount}
+            {optimalMoves !== null &&
+              (mode === 'par'
+                ? ` / Limit: ${getMoveLimit(optimalMoves)}`
+                : ` / Best: ${optimalMoves}`)}
           </Badge>
 
+          {mode === 'timeAttack' && (
+            <Badge
+              variant="outline"
+              className={cn(
+                'px-2 py-1 flex items-center gap-1 tabular-nums',
+                secondsLeft <= 10 && 'text-red-600 border-red-400',
+              )}
+            >
+              <Timer className="h-3 w-3" />
+              {formatDuration(secondsLeft * 1000)}
+            </Badge>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={showHint}
+            disabled={
+              isComplete ||
+              isLost ||
+              isAnimating ||
+              isHintLoading ||
+              hintsUsed >= config.hints
+            }
+            className="flex items-center gap-1"
+          >
+            <Lightbulb className="h-3 w-3" />
+            Hint ({config.hints - hintsUsed})
+          </Button>
+
           <Button
             variant="outline"
             size="sm"
@@ -881,6 +1095,25 @@ export function CatSort({
           </Button>
         </div>
 
+        {history.moves.length > 0 && canTakeBack(mode) && (
+          <label className="flex items-center gap-2 w-full text-xs text-gray-500">
+            Timeline
+            <input
+              type="range"
+              min={0}
+              max={history.moves.length}
+              value={history.position}
+              onChange={(event) =>
+                handleTimelineChange(Number(event.target.value))
+              }
+              disabled={isComplete || isAnimating || !isTakeBackAllowed}
+              className="flex-1"
+              aria-label="Move timeline"
+            />
+            {history.position}/{history.moves.length}
+          </label>
+        )}
+
         {isComplete && (
           <div className="text-center mt-4 animate-fade-in">
             <Badge
@@ -888,6 +1121,17 @@ export function CatSort({
               className="bg-green-100 text-green-800 border-green-400 px-3 py-1 text-sm"
             >
               🎉 Puzzle Solved in {moveCount} moves!
+              {optimalMoves !== null &&
+                moveCount <= optimalMoves &&
+                ' A perfect solve!'}{' '}
+              Score:{' '}
+              {calculateScore({
+                moves: moveCount,
+                optimalMoves: optimalMoves ?? moveCount,
+                hintsUsed,
+                mode,
+                secondsLeft,
+              })}
             </Badge>
           </div>
         )}
@@ -898,30 +1142,40 @@ export function CatSort({
               variant="outline"
               className="bg-red-100 text-red-800 border-red-400 px-3 py-1 text-sm"
             >
-              😕 No more moves available! Try again.
+              {lossReason === 'timeUp'
+                ? "⏰ Time's up! Try again."
+                : lossReason === 'outOfMoves'
+                ? '😕 Out of moves! Try again.'
+                : '😕 No more moves available! Try again.'}
             </Badge>
           </div>
         )}
 
+        {hintProblem === 'unsolvable' && (
+          <div className="text-center mt-2 text-sm text-gray-500">
+            This board can no longer be solved. Undo a few moves and try again.
+          </div>
+        )}
+
+        {hintProblem === 'gaveUp' && (
+          <div className="text-center mt-2 text-sm text-gray-500">
+            No hint is available for this board. It may still be solvable, so
+            keep going.
+          </div>
+        )}
+
         {selectedStackIndex !== null && (
           <div className="text-center mt-2 text-sm text-gray-500 flex items-center gap-1">
             <MoveHorizontal className="h-3 w-3" />
-            Click on another stack to move the matching cats
+            Click on another stack, or press its number key, to move the
+            matching cats
           </div>
         )}
-      </div>
 
-      {/* Add CSS animations using dangerouslySetInnerHTML instead of style jsx */}
-      <style
-        dangerouslySetInnerHTML={{
-          __html: `
-          @keyframes moveBox {
-            0% { transform: translateX(0) translateY(0); }
-            100% { transform: translateX(var(--tx)) translateY(var(--ty)); }
-          }
-        `,
-        }}
-      />
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,76 @@
+import {Badge} from '~/components/ui/badge';
+
+import {cn} from '~/lib/utils';
+import type {GameState} from '~/lib/match/engine';
+import {formatDuration} from '~/lib/match/leaderboard';
+import {countCompletedStacks, isStackComplete} from '~/lib/match/race';
+
+// Height of a mini box plus its gap, and the padding of a mini stack
+const MINI_BOX_HEIGHT = 14;
+const MINI_STACK_PADDING = 8;
+
+interface RaceOpponentProps {
+  // The opponent's board, replayed from the moves they sent
+  board: GameState;
+  moves: number;
+  // Set once the opponent solved the board
+  result: {moves: number; duration: number} | null;
+  className?: string;
+}
+
+/**
+ * A small, read-only copy of the opponent's board shown next to the
+ * player's own during a race.
+ */
+export function RaceOpponent({
+  board,
+  moves,
+  result,
+  className,
+}: RaceOpponentProps) {
+  const completedStacks = countCompletedStacks(board);
+
+  return (
+    <div
+      className={cn('flex flex-col items-center gap-2 p-4', className)}
+      aria-label="Opponent's board"
+    >
+      <h3 className="text-sm font-semibold">Opponent</h3>
+      <div className="flex flex-wrap justify-center gap-1 max-w-[12rem]">
+        {board.stacks.map((stack, stackIndex) => (
+          <div
+            key={`stack-${stackIndex}`}
+            className={cn(
+              'w-5 border rounded flex flex-col items-center justify-end gap-0.5 p-0.5 border-gray-300',
+              isStackComplete(board, stack) && 'border-green-500 bg-green-50',
+              board.stackKinds[stackIndex] === 'blocked' && 'bg-gray-200',
+            )}
+            style={{
+              height: board.stackSize * MINI_BOX_HEIGHT + MINI_STACK_PADDING,
+            }}
+          >
+            {stack.map((box) => (
+              <div
+                key={box.id}
+                className="w-3.5 h-3 rounded-sm"
+                style={{backgroundColor: box.cat.primaryColor || '#d0d0d0'}}
+                title={box.cat.name}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Badge variant="outline">Moves: {moves}</Badge>
+        <Badge variant="outline">
+          Sorted: {completedStacks}/{board.cats.length}
+        </Badge>
+      </div>
+      {result && (
+        <p className="text-xs text-gray-500">
+          Solved in {result.moves} moves ({formatDuration(result.duration)})
+        </p>
+      )}
+    </div>
+  );
+}
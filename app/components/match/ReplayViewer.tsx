@@ -0,0 +1,250 @@
+import {useEffect, useLayoutEffect, useMemo, useRef, useState} from 'react';
+
+import {Button} from '~/components/ui/button';
+import {Badge} from '~/components/ui/badge';
+
+import {cn} from '~/lib/utils';
+import {describeMove} from '~/lib/match/announcements';
+import {
+  measureBoxes,
+  playFlip,
+  prefersReducedMotion,
+} from '~/lib/match/animation';
+import {type Replay, getReplayStates} from '~/lib/match/replay';
+
+import {
+  Ban,
+  Lock,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+} from 'lucide-react';
+
+// Time between two moves at normal speed, in ms
+const STEP_DURATION = 1000;
+
+// Longest a box takes to slide into place, in ms
+const ANIMATION_DURATION = 400;
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+// Height of a box plus its margin, and the room a stack needs around them
+const BOX_HEIGHT = 52;
+const STACK_PADDING = 48;
+
+interface ReplayViewerProps {
+  replay: Replay;
+  className?: string;
+}
+
+/**
+ * Plays back a replay move by move, with controls to step through it,
+ * scrub the timeline and change the playback speed.
+ */
+export function ReplayViewer({replay, className}: ReplayViewerProps) {
+  const states = useMemo(() => getReplayStates(replay), [replay]);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const boardRef = useRef<HTMLDivElement | null>(null);
+
+  // Box positions measured just before the board changes, for FLIP
+  const beforeRef = useRef<Map<string, DOMRect> | null>(null);
+
+  const lastPosition = replay.moves.length;
+  const game = states[position];
+  const lastMove = position > 0 ? replay.moves[position - 1] : null;
+
+  useEffect(() => {
+    setPosition(0);
+    setIsPlaying(false);
+  }, [replay]);
+
+  const goTo = (nextPosition: number) => {
+    const board = boardRef.current;
+    if (board && !prefersReducedMotion()) {
+      beforeRef.current = measureBoxes(board);
+    }
+    setPosition(Math.min(Math.max(nextPosition, 0), lastPosition));
+  };
+
+  // Slide the boxes that moved once the new board is in the DOM
+  useLayoutEffect(() => {
+    const before = beforeRef.current;
+    beforeRef.current = null;
+
+    if (before && boardRef.current) {
+      playFlip(
+        boardRef.current,
+        before,
+        Math.min(ANIMATION_DURATION, STEP_DURATION / speed),
+      );
+    }
+  }, [position]);
+
+  // Step forward on a timer while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    if (position >= lastPosition) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => goTo(position + 1), STEP_DURATION / speed);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, position, speed]);
+
+  const togglePlaying = () => {
+    // Playing a finished replay starts it over
+    if (!isPlaying && position >= lastPosition) goTo(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className={cn('flex flex-col items-center gap-4 p-4', className)}>
+      <div
+        ref={boardRef}
+        className="flex flex-wrap justify-center gap-3 max-w-3xl"
+        aria-label="Replay board"
+      >
+        {game.stacks.map((stack, stackIndex) => {
+          const stackKind = game.stackKinds[stackIndex];
+
+          return (
+            <div
+              key={`stack-${stackIndex}`}
+              className={cn(
+                'relative w-14 border-2 border-gray-300 rounded-lg flex flex-col items-center justify-end p-1',
+                lastMove?.from === stackIndex && 'border-indigo-300',
+                lastMove?.to === stackIndex &&
+                  'border-indigo-500 ring-2 ring-indigo-300',
+                stack.length === 0 && 'bg-gray-50',
+                stackKind === 'locked' && 'bg-gray-100 border-gray-400',
+                stackKind === 'blocked' && 'bg-gray-200 border-gray-200',
+              )}
+              style={{height: game.stackSize * BOX_HEIGHT + STACK_PADDING}}
+            >
+              {stackKind === 'locked' && (
+                <Lock className="absolute top-1 h-3 w-3 text-gray-400" />
+              )}
+              {stackKind === 'blocked' && (
+                <Ban className="absolute top-1/2 h-5 w-5 -translate-y-1/2 text-gray-400" />
+              )}
+              {stack.map((box) => (
+                <div
+                  key={box.id}
+                  data-box-id={box.id}
+                  className="relative w-12 h-12 rounded mb-1 flex items-center justify-center border-2"
+                  style={{
+                    backgroundColor: box.cat.primaryColor || '#f0f0f0',
+                    borderColor: box.cat.secondaryColor || '#d0d0d0',
+                  }}
+                >
+                  <img
+                    src={box.cat.image}
+                    alt={box.cat.name}
+                    width={32}
+                    height={32}
+                    className="object-contain rounded-full"
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-sm text-gray-500" role="status" aria-live="polite">
+        {lastMove
+          ? describeMove(states[position - 1], lastMove)
+          : 'The board as it was dealt'}
+      </p>
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goTo(0)}
+          disabled={position === 0}
+          aria-label="Back to the start"
+        >
+          <SkipBack className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goTo(position - 1)}
+          disabled={position === 0}
+          aria-label="Step back"
+        >
+          <StepBack className="h-3 w-3" />
+        </Button>
+        <Button
+          size="sm"
+          onClick={togglePlaying}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? (
+            <Pause className="h-3 w-3" />
+          ) : (
+            <Play className="h-3 w-3" />
+          )}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goTo(position + 1)}
+          disabled={position === lastPosition}
+          aria-label="Step forward"
+        >
+          <StepForward className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goTo(lastPosition)}
+          disabled={position === lastPosition}
+          aria-label="Skip to the end"
+        >
+          <SkipForward className="h-3 w-3" />
+        </Button>
+        <Badge variant="outline" className="px-2 py-1">
+          Move {position} / {lastPosition}
+        </Badge>
+      </div>
+
+      <label className="flex items-center gap-2 w-full max-w-md text-xs text-gray-500">
+        Timeline
+        <input
+          type="range"
+          min={0}
+          max={lastPosition}
+          value={position}
+          onChange={(event) => setPosition(Number(event.target.value))}
+          className="flex-1"
+          aria-label="Replay timeline"
+        />
+      </label>
+
+      <div className="flex items-center gap-2">
+        <div className="text-sm text-gray-500 mr-1">Speed:</div>
+        {SPEEDS.map((option) => (
+          <Button
+            key={option}
+            variant={speed === option ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSpeed(option)}
+            className="text-xs h-7 px-2"
+          >
+            {option}×
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
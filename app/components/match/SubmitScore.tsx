@@ -0,0 +1,80 @@
+import {useFetcher} from '@remix-run/react';
+import {Link, useLocalizedPath} from '~/components/Link';
+
+import {Button} from '~/components/ui/button';
+import type {Difficulty, Move} from '~/lib/match/engine';
+import type {LeaderboardBoard} from '~/lib/match/leaderboard';
+
+import {Trophy} from 'lucide-react';
+
+interface SubmitScoreProps {
+  result: {
+    seed: string;
+    difficulty: Difficulty;
+    moves: Move[];
+  };
+}
+
+type SubmitScoreResult = {
+  error: string | null;
+  ranks: {board: LeaderboardBoard; rank: number | null}[] | null;
+};
+
+/**
+ * Form shown once a puzzle is solved, posting the win to the leaderboard
+ * under a name of the player's choosing.
+ */
+export function SubmitScore({result}: SubmitScoreProps) {
+  const fetcher = useFetcher<SubmitScoreResult>();
+  const leaderboardPath = useLocalizedPath('/match/leaderboard');
+
+  const isSubmitted = fetcher.data?.ranks && fetcher.state === 'idle';
+
+  return (
+    <section className="flex flex-col items-center gap-2 mt-6 text-sm">
+      <h3 className="text-lg font-semibold flex items-center gap-2">
+        <Trophy className="h-4 w-4 text-amber-500" />
+        Leaderboard
+      </h3>
+      {isSubmitted ? (
+        <p>
+          {fetcher.data!.ranks!.map(({board, rank}) => (
+            <span key={board.type} className="block text-center">
+              {board.type === 'daily' ? 'Daily challenge' : 'Free play'}:{' '}
+              {rank ? `#${rank}` : 'not ranked this time'}
+            </span>
+          ))}
+        </p>
+      ) : (
+        <fetcher.Form
+          method="POST"
+          action={leaderboardPath}
+          className="flex items-center gap-2"
+        >
+          <input type="hidden" name="seed" value={result.seed} />
+          <input type="hidden" name="difficulty" value={result.difficulty} />
+          <input
+            type="hidden"
+            name="moves"
+            value={JSON.stringify(result.moves)}
+          />
+          <input
+            type="text"
+            name="name"
+            placeholder="Your name"
+            maxLength={24}
+            aria-label="Your name"
+            className="rounded border px-2 py-1"
+          />
+          <Button type="submit" size="sm" disabled={fetcher.state !== 'idle'}>
+            Submit score
+          </Button>
+        </fetcher.Form>
+      )}
+      {fetcher.data?.error && (
+        <p className="text-red-500">{fetcher.data.error}</p>
+      )}
+      <Link to="/match/leaderboard">View leaderboard</Link>
+    </section>
+  );
+}
@@ -1,4 +1,8 @@
-import type {EntryContext} from '@shopify/remix-oxygen';
+import type {
+  AppLoadContext,
+  DataFunctionArgs,
+  EntryContext,
+} from '@shopify/remix-oxygen';
 import {RemixServer} from '@remix-run/react';
 import isbot from 'isbot';
 import {renderToReadableStream} from 'react-dom/server';
@@ -8,14 +12,28 @@ export default async function handleRequest(
   responseStatusCode: number,
   responseHeaders: Headers,
   remixContext: EntryContext,
+  context: AppLoadContext,
 ) {
+  const {logger, reporter, waitUntil} = context;
+  const route = remixContext.staticHandlerContext.matches.at(-1)?.route.id;
+  if (route) logger.setRoute(route);
+
+  // Loaders and actions have run by the time Remix asks for the document
+  logger.recordTiming('loader', logger.elapsed());
+  const renderStart = Date.now();
+
   const body = await renderToReadableStream(
     <RemixServer context={remixContext} url={request.url} />,
     {
       signal: request.signal,
       onError(error) {
-        // eslint-disable-next-line no-console
-        console.error(error);
+        waitUntil(
+          reporter.report(error, {
+            source: 'render',
+            requestId: logger.requestId,
+            url: request.url,
+          }),
+        );
         responseStatusCode = 500;
       },
     },
@@ -25,9 +43,44 @@ export default async function handleRequest(
     await body.allReady;
   }
 
+  // Browsers get the shell now and suspended parts as they settle, so only
+  // the shell is timed for them
+  logger.recordTiming('render', Date.now() - renderStart);
+
   responseHeaders.set('Content-Type', 'text/html');
   return new Response(body, {
     headers: responseHeaders,
     status: responseStatusCode,
   });
 }
+
+/**
+ * Times the loader of a data request, which has nothing to render.
+ */
+export function handleDataRequest(
+  response: Response,
+  {context}: DataFunctionArgs,
+) {
+  context.logger.recordTiming('loader', context.logger.elapsed());
+  return response;
+}
+
+/**
+ * Reports errors thrown by loaders and actions. Remix still renders the
+ * nearest `ErrorBoundary` for them.
+ */
+export function handleError(
+  error: unknown,
+  {request, context}: DataFunctionArgs,
+) {
+  // A request the browser gave up on is not an error worth reporting
+  if (request.signal.aborted) return;
+
+  context.waitUntil(
+    context.reporter.report(error, {
+      source: 'loader',
+      requestId: context.logger.requestId,
+      url: request.url,
+    }),
+  );
+}
@@ -0,0 +1,17 @@
+import type {HydrogenCart} from '@shopify/hydrogen';
+
+/**
+ * Replaces the discount codes of the cart, dropping blanks and duplicates.
+ * Creates a cart when there is none yet, unless `cartId` names one that
+ * was created during this request.
+ */
+export function updateDiscountCodes(
+  cart: HydrogenCart,
+  discountCodes: string[],
+  cartId?: string,
+) {
+  return cart.updateDiscountCodes(
+    [...new Set(discountCodes.filter(Boolean))],
+    cartId ? {cartId} : undefined,
+  );
+}
@@ -0,0 +1,29 @@
+import type {Storefront} from '@shopify/hydrogen';
+import type {HydrogenSession} from '../../server';
+
+/**
+ * The id of the logged-in customer, for keying data that should follow
+ * them across devices. `null` for guests and expired logins.
+ */
+export async function getCustomerId(
+  storefront: Storefront,
+  session: HydrogenSession,
+) {
+  const customerAccessToken = await session.get('customerAccessToken');
+  if (!customerAccessToken?.accessToken) return null;
+
+  const {customer} = await storefront.query(CUSTOMER_ID_QUERY, {
+    cache: storefront.CacheNone(),
+    variables: {customerAccessToken: customerAccessToken.accessToken},
+  });
+
+  return customer?.id ?? null;
+}
+
+const CUSTOMER_ID_QUERY = `#graphql
+  query CustomerId($customerAccessToken: String!) {
+    customer(customerAccessToken: $customerAccessToken) {
+      id
+    }
+  }
+` as const;
@@ -0,0 +1,137 @@
+import {describe, expect, it} from 'vitest';
+import {EnvError, parseEnv} from './env';
+import {createMemoryKV} from './kv';
+
+const SECRET = 'a-production-secret-of-32-or-more-chars';
+
+function createEnv(env: Partial<Env> = {}) {
+  return {
+    SESSION_SECRET: 'foobar',
+    PUBLIC_STORE_DOMAIN: 'mock.shop',
+    ...env,
+  } as Env;
+}
+
+function getIssues(env: Env, mode: 'production' | 'development') {
+  try {
+    parseEnv(env, mode);
+    return [];
+  } catch (error) {
+    if (error instanceof EnvError) return error.issues;
+    throw error;
+  }
+}
+
+describe('parseEnv', () => {
+  it('accepts the example environment in development', () => {
+    expect(parseEnv(createEnv(), 'development')).toEqual({
+      sessionSecrets: ['foobar'],
+      storeDomain: 'mock.shop',
+      publicStorefrontToken: '',
+      privateStorefrontToken: undefined,
+      storefrontId: undefined,
+      performanceBudgets: {},
+    });
+  });
+
+  it('splits rotated secrets, newest first', () => {
+    const config = parseEnv(
+      createEnv({SESSION_SECRET: 'new, old,'}),
+      'development',
+    );
+    expect(config.sessionSecrets).toEqual(['new', 'old']);
+  });
+
+  it('lists every issue at once', () => {
+    expect(
+      getIssues(
+        createEnv({
+          SESSION_SECRET: '',
+          PUBLIC_STORE_DOMAIN: 'https://shop.example.com',
+          SESSION_MAX_AGE: '0',
+        }),
+        'development',
+      ),
+    ).toEqual([
+      'SESSION_SECRET is not set',
+      'PUBLIC_STORE_DOMAIN must be a domain without a protocol, e.g. my-shop.myshopify.com',
+      'PUBLIC_STOREFRONT_API_TOKEN is not set',
+      'SESSION_MAX_AGE must be a positive number of seconds',
+    ]);
+  });
+
+  it('refuses insecure and short secrets in production', () => {
+    const env = {SESSION_KV: createMemoryKV()};
+
+    expect(getIssues(createEnv(env), 'production')).toEqual([
+      'SESSION_SECRET contains a known insecure default',
+    ]);
+    expect(
+      getIssues(createEnv({...env, SESSION_SECRET: 'short'}), 'production'),
+    ).toEqual([
+      'SESSION_SECRET secrets must be at least 32 characters in production',
+    ]);
+  });
+
+  it('needs a key-value store in production', () => {
+    expect(
+      getIssues(createEnv({SESSION_SECRET: SECRET}), 'production'),
+    ).toEqual(['SESSION_KV_URL is not set']);
+    expect(
+      getIssues(
+        createEnv({
+          SESSION_SECRET: SECRET,
+          SESSION_KV_URL: 'https://example.upstash.io',
+        }),
+        'production',
+      ),
+    ).toEqual(['SESSION_KV_TOKEN is not set']);
+  });
+
+  it('accepts a key-value binding or endpoint in production', () => {
+    expect(
+      getIssues(
+        createEnv({SESSION_SECRET: SECRET, SESSION_KV: createMemoryKV()}),
+        'production',
+      ),
+    ).toEqual([]);
+    expect(
+      getIssues(
+        createEnv({
+          SESSION_SECRET: SECRET,
+          SESSION_KV_URL: 'https://example.upstash.io',
+          SESSION_KV_TOKEN: 'token',
+        }),
+        'production',
+      ),
+    ).toEqual([]);
+  });
+
+  it('needs a store for kv sessions in development too', () => {
+    expect(
+      getIssues(createEnv({SESSION_STORAGE: 'kv'}), 'development'),
+    ).toEqual(['SESSION_KV_URL is not set']);
+  });
+
+  it('refuses memory sessions in production only', () => {
+    const env = createEnv({
+      SESSION_SECRET: SECRET,
+      SESSION_KV: createMemoryKV(),
+      SESSION_STORAGE: 'memory',
+    });
+
+    expect(getIssues(env, 'development')).toEqual([]);
+    expect(getIssues(env, 'production')).toEqual([
+      'SESSION_STORAGE cannot be memory in production',
+    ]);
+  });
+
+  it('checks performance budgets', () => {
+    expect(
+      getIssues(
+        createEnv({PERFORMANCE_BUDGETS: '{"root": {"loader": -1}}'}),
+        'development',
+      ),
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,170 @@
+import {SESSION_BACKENDS} from '~/lib/session';
+import {type PerformanceBudget, parseBudgets} from '~/lib/timing';
+
+/**
+ * The validated configuration the server runs with, read from `Env` by
+ * `getEnvConfig`.
+ */
+export type EnvConfig = {
+  // The first secret signs new cookies; all of them verify existing ones,
+  // so a secret can be rotated out without signing everyone out
+  sessionSecrets: string[];
+  storeDomain: string;
+  publicStorefrontToken: string;
+  privateStorefrontToken?: string;
+  storefrontId?: string;
+  // Budgets by route id that override the ones in `~/lib/timing`
+  performanceBudgets: Record<string, PerformanceBudget>;
+};
+
+type Mode = 'production' | 'development';
+
+/**
+ * Thrown when the environment does not follow `ENV_SCHEMA`, with one
+ * issue per variable.
+ */
+export class EnvError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid environment:\n- ${issues.join('\n- ')}`);
+    this.name = 'EnvError';
+  }
+}
+
+// The demo store, which needs no Storefront API token
+const MOCK_SHOP_DOMAIN = 'mock.shop';
+
+// Secrets that ship in examples and docs, and so are known to everyone
+const INSECURE_SECRETS = ['foobar', 'secret', 'changeme', 'password'];
+
+const MIN_SECRET_LENGTH = 32;
+
+type EnvField = {
+  required: boolean | ((env: Env, mode: Mode) => boolean);
+  // Returns what is wrong with a set value, if anything
+  validate?: (value: string, mode: Mode) => string | null;
+};
+
+const ENV_SCHEMA: Partial<Record<keyof Env, EnvField>> = {
+  SESSION_SECRET: {
+    required: true,
+    validate(value, mode) {
+      const secrets = parseSecrets(value);
+      if (!secrets.length) return 'must list at least one secret';
+      if (mode !== 'production') return null;
+      if (secrets.some((secret) => INSECURE_SECRETS.includes(secret))) {
+        return 'contains a known insecure default';
+      }
+      if (secrets.some((secret) => secret.length < MIN_SECRET_LENGTH)) {
+        return `secrets must be at least ${MIN_SECRET_LENGTH} characters in production`;
+      }
+      return null;
+    },
+  },
+  PUBLIC_STORE_DOMAIN: {
+    required: true,
+    validate: (value) =>
+      /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(value)
+        ? null
+        : 'must be a domain without a protocol, e.g. my-shop.myshopify.com',
+  },
+  PUBLIC_STOREFRONT_API_TOKEN: {
+    required: (env) => env.PUBLIC_STORE_DOMAIN !== MOCK_SHOP_DOMAIN,
+  },
+  PRIVATE_STOREFRONT_API_TOKEN: {required: false},
+  PUBLIC_STOREFRONT_ID: {required: false},
+  SESSION_STORAGE: {
+    required: false,
+    validate(value, mode) {
+      if (!(SESSION_BACKENDS as string[]).includes(value)) {
+        return `must be one of ${SESSION_BACKENDS.join(', ')}`;
+      }
+      // Each instance would have its own sessions, all lost on deploy
+      return mode === 'production' && value === 'memory'
+        ? 'cannot be memory in production'
+        : null;
+    },
+  },
+  SESSION_MAX_AGE: {
+    required: false,
+    validate: (value) =>
+      /^[1-9]\d*$/.test(value) ? null : 'must be a positive number of seconds',
+  },
+  // Saved games, achievements, leaderboards and reward claims must outlive
+  // the instance in production, so a store is required there
+  SESSION_KV_URL: {
+    required: (env, mode) =>
+      !env.SESSION_KV &&
+      (mode === 'production' || env.SESSION_STORAGE === 'kv'),
+    validate: (value) =>
+      /^https?:\/\//.test(value) ? null : 'must be an http(s) URL',
+  },
+  SESSION_KV_TOKEN: {
+    required: (env) => !env.SESSION_KV && Boolean(env.SESSION_KV_URL),
+  },
+  PERFORMANCE_BUDGETS: {
+    required: false,
+    validate(value) {
+      try {
+        parseBudgets(value);
+        return null;
+      } catch (error) {
+        return error instanceof Error ? error.message : 'is invalid';
+      }
+    },
+  },
+};
+
+// `SESSION_SECRET="new,old"` signs with `new` and still accepts `old`
+function parseSecrets(value: string) {
+  return value
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Checks `env` against `ENV_SCHEMA`. Throws an `EnvError` listing every
+ * problem at once, so a misconfigured deploy is fixed in one go.
+ */
+export function parseEnv(env: Env, mode: Mode): EnvConfig {
+  const issues = Object.entries(ENV_SCHEMA).flatMap(([name, field]) => {
+    const value = env[name as keyof Env];
+    const required =
+      typeof field.required === 'function'
+        ? field.required(env, mode)
+        : field.required;
+
+    if (value === undefined || value === '') {
+      return required ? [`${name} is not set`] : [];
+    }
+    if (typeof value !== 'string') return [`${name} must be a string`];
+
+    const problem = field.validate?.(value, mode);
+    return problem ? [`${name} ${problem}`] : [];
+  });
+
+  if (issues.length) throw new EnvError(issues);
+
+  return {
+    sessionSecrets: parseSecrets(env.SESSION_SECRET),
+    storeDomain: env.PUBLIC_STORE_DOMAIN,
+    publicStorefrontToken: env.PUBLIC_STOREFRONT_API_TOKEN ?? '',
+    privateStorefrontToken: env.PRIVATE_STOREFRONT_API_TOKEN || undefined,
+    storefrontId: env.PUBLIC_STOREFRONT_ID || undefined,
+    performanceBudgets: env.PERFORMANCE_BUDGETS
+      ? parseBudgets(env.PERFORMANCE_BUDGETS)
+      : {},
+  };
+}
+
+// Workers hand every request the same `env`, so it is checked only once
+const configs = new WeakMap<Env, EnvConfig>();
+
+export function getEnvConfig(env: Env, mode: Mode) {
+  let config = configs.get(env);
+  if (!config) {
+    config = parseEnv(env, mode);
+    configs.set(env, config);
+  }
+  return config;
+}
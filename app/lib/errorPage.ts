@@ -0,0 +1,63 @@
+type ErrorPage = {
+  status: number;
+  title: string;
+  message: string;
+  // Shown below the message, e.g. the problems with the environment
+  details?: string[];
+  // Lets whoever hit the error point us at its log lines
+  requestId?: string;
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * A self-contained HTML page for errors that happen before Remix can
+ * render the app, so it needs neither the app's styles nor its layout.
+ */
+export function createErrorPage({
+  status,
+  title,
+  message,
+  details,
+  requestId,
+}: ErrorPage) {
+  const list = details?.length
+    ? `<ul>${details
+        .map((detail) => `<li><code>${escapeHtml(detail)}</code></li>`)
+        .join('')}</ul>`
+    : '';
+  const reference = requestId
+    ? `<p><small>Request ID: <code>${escapeHtml(requestId)}</code></small></p>`
+    : '';
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width,initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 4rem auto; max-width: 40rem; padding: 0 1rem; line-height: 1.5; }
+      h1 { font-size: 1.5rem; }
+      li { margin: 0.25rem 0; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    <p>${escapeHtml(message)}</p>
+    ${list}
+    ${reference}
+  </body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: {'Content-Type': 'text/html; charset=utf-8'},
+  });
+}
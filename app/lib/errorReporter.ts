@@ -0,0 +1,120 @@
+import {writeLog} from '~/lib/logger';
+
+/**
+ * Where an error was caught: the `fetch` handler in `server.ts`, loaders and
+ * actions, streaming the document, or the root `ErrorBoundary` in the browser.
+ */
+export type ErrorSource = 'request' | 'loader' | 'render' | 'boundary';
+
+export type ErrorContext = {
+  source: ErrorSource;
+  requestId?: string;
+  url?: string;
+};
+
+export type ErrorReport = ErrorContext & {
+  name: string;
+  message: string;
+  stack?: string;
+  reportedAt: string;
+};
+
+/**
+ * Receives the errors the app could not handle. Implement it to send
+ * them to an error tracking service.
+ */
+export interface ErrorReporter {
+  report(error: unknown, context: ErrorContext): Promise<void>;
+}
+
+// Longest message or stack kept from a report sent by the browser
+const MAX_FIELD_LENGTH = 4000;
+
+export function createErrorReport(
+  error: unknown,
+  context: ErrorContext,
+): ErrorReport {
+  const isError = error instanceof Error;
+  return {
+    ...context,
+    name: isError ? error.name : 'Error',
+    message: isError ? error.message : String(error),
+    stack: isError ? error.stack : undefined,
+    reportedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads an error the root `ErrorBoundary` posted to `/api/errors`.
+ */
+export function parseClientError(value: unknown): ErrorContext & {
+  error: Error;
+} {
+  const body = value as Record<string, unknown> | null;
+
+  if (typeof body?.message !== 'string' || typeof body.url !== 'string') {
+    throw new Error('Invalid error report');
+  }
+
+  const error = new Error(body.message.slice(0, MAX_FIELD_LENGTH));
+  error.name = typeof body.name === 'string' ? body.name.slice(0, 64) : 'Error';
+  error.stack =
+    typeof body.stack === 'string'
+      ? body.stack.slice(0, MAX_FIELD_LENGTH)
+      : undefined;
+
+  return {
+    error,
+    source: 'boundary',
+    url: body.url.slice(0, 2048),
+    requestId:
+      typeof body.requestId === 'string'
+        ? body.requestId.slice(0, 64)
+        : undefined,
+  };
+}
+
+/**
+ * Sends an error caught in the browser to `/api/errors`. Failures are
+ * ignored, since there is nowhere left to report them.
+ */
+export function reportClientError(error: unknown, requestId?: string) {
+  const {name, message, stack} = createErrorReport(error, {
+    source: 'boundary',
+  });
+
+  fetch('/api/errors', {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({
+      name,
+      message,
+      stack,
+      requestId,
+      url: window.location.href,
+    }),
+    keepalive: true,
+  }).catch(() => {});
+}
+
+/**
+ * Logs each error as a JSON line on the console.
+ */
+export function createConsoleReporter(): ErrorReporter {
+  return {
+    async report(error, context) {
+      const {message, ...report} = createErrorReport(error, context);
+      writeLog('error', message, report);
+    },
+  };
+}
+
+const reporter = createConsoleReporter();
+
+/**
+ * The error reporter for this server. Workers have no file system, so
+ * reports go to the console until a tracking service is plugged in here.
+ */
+export function getErrorReporter() {
+  return reporter;
+}
@@ -0,0 +1,9 @@
+// FNV-1a, enough to spread short strings over 32 bits
+export function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
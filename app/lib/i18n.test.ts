@@ -0,0 +1,75 @@
+import {describe, expect, it} from 'vitest';
+import {
+  DEFAULT_LOCALE,
+  getLocaleFromRequest,
+  getLocaleRedirect,
+  varyByPreferredLocale,
+} from './i18n';
+
+function createRequest(path: string, headers: HeadersInit = {}) {
+  return new Request(`https://shop.example.com${path}`, {headers});
+}
+
+describe('getLocaleFromRequest', () => {
+  it('serves unprefixed URLs in the default locale whatever the visitor prefers', () => {
+    const request = createRequest('/match', {
+      Cookie: 'locale=fr-ca',
+      'Accept-Language': 'de-DE',
+    });
+    expect(getLocaleFromRequest(request)).toBe(DEFAULT_LOCALE);
+  });
+
+  it('serves prefixed URLs in their locale', () => {
+    expect(getLocaleFromRequest(createRequest('/fr-ca/match')).pathPrefix).toBe(
+      '/fr-ca',
+    );
+  });
+});
+
+describe('getLocaleRedirect', () => {
+  it('sends visitors to the prefix of the locale they picked', () => {
+    const response = getLocaleRedirect(
+      createRequest('/match?seed=abc', {
+        Cookie: 'session=1; locale=fr-ca',
+        'Accept-Language': 'de-DE',
+      }),
+    );
+    expect(response?.status).toBe(302);
+    expect(response?.headers.get('Location')).toBe('/fr-ca/match?seed=abc');
+  });
+
+  it('falls back to the preferred language', () => {
+    const response = getLocaleRedirect(
+      createRequest('/', {'Accept-Language': 'de-DE,de;q=0.9'}),
+    );
+    expect(response?.headers.get('Location')).toBe('/de-de');
+  });
+
+  it('leaves default locale visitors, prefixed URLs and resources alone', () => {
+    const german = {'Accept-Language': 'de-DE'};
+
+    expect(getLocaleRedirect(createRequest('/match'))).toBeNull();
+    expect(
+      getLocaleRedirect(createRequest('/match', {Cookie: 'locale=en-us'})),
+    ).toBeNull();
+    expect(getLocaleRedirect(createRequest('/fr-ca/match', german))).toBeNull();
+    expect(getLocaleRedirect(createRequest('/sitemap.xml', german))).toBeNull();
+    expect(getLocaleRedirect(createRequest('/api/race', german))).toBeNull();
+    expect(
+      getLocaleRedirect(createRequest('/match?_data=root', german)),
+    ).toBeNull();
+  });
+});
+
+describe('varyByPreferredLocale', () => {
+  it('marks unprefixed pages only', () => {
+    const page = new Response();
+    const prefixed = new Response();
+
+    varyByPreferredLocale(createRequest('/match'), page);
+    varyByPreferredLocale(createRequest('/fr-ca/match'), prefixed);
+
+    expect(page.headers.get('Vary')).toBe('Cookie, Accept-Language');
+    expect(prefixed.headers.get('Vary')).toBeNull();
+  });
+});
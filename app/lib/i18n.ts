@@ -0,0 +1,220 @@
+import type {
+  CountryCode,
+  LanguageCode,
+} from '@shopify/hydrogen/storefront-api-types';
+
+export type Locale = {
+  language: LanguageCode;
+  country: CountryCode;
+  label: string;
+  // Path segment the locale's URLs start with, e.g. `/fr-ca`. Empty for
+  // the default locale, which lives at the root.
+  pathPrefix: string;
+};
+
+export const DEFAULT_LOCALE: Locale = {
+  language: 'EN',
+  country: 'US',
+  label: 'United States (English)',
+  pathPrefix: '',
+};
+
+/**
+ * Locales the storefront is offered in. Add a market here to make it
+ * selectable and reachable under its path prefix.
+ */
+export const LOCALES: Locale[] = [
+  DEFAULT_LOCALE,
+  {
+    language: 'EN',
+    country: 'CA',
+    label: 'Canada (English)',
+    pathPrefix: '/en-ca',
+  },
+  {
+    language: 'FR',
+    country: 'CA',
+    label: 'Canada (Français)',
+    pathPrefix: '/fr-ca',
+  },
+  {
+    language: 'EN',
+    country: 'GB',
+    label: 'United Kingdom (English)',
+    pathPrefix: '/en-gb',
+  },
+  {
+    language: 'DE',
+    country: 'DE',
+    label: 'Deutschland (Deutsch)',
+    pathPrefix: '/de-de',
+  },
+  {
+    language: 'FR',
+    country: 'FR',
+    label: 'France (Français)',
+    pathPrefix: '/fr-fr',
+  },
+  {
+    language: 'ES',
+    country: 'ES',
+    label: 'España (Español)',
+    pathPrefix: '/es-es',
+  },
+];
+
+// `fr-ca` for French in Canada, as used in the URL and `($locale)` param
+export function getLocaleKey({language, country}: Locale) {
+  return `${language}-${country}`.toLowerCase();
+}
+
+export function findLocale(key: unknown) {
+  if (typeof key !== 'string') return null;
+  return (
+    LOCALES.find((locale) => getLocaleKey(locale) === key.toLowerCase()) ?? null
+  );
+}
+
+/**
+ * The locale named by the first segment of a path, e.g. `/fr-ca/cart`.
+ * The default locale has no prefix and is never found this way.
+ */
+export function getLocaleFromPath(pathname: string) {
+  const locale = findLocale(pathname.split('/')[1]);
+  return locale?.pathPrefix ? locale : null;
+}
+
+/**
+ * The best offered locale for an `Accept-Language` header such as
+ * `fr-CA,fr;q=0.9,en;q=0.8`. A tag without a country, or with one we do
+ * not sell in, falls back to the first locale of its language.
+ */
+export function getLocaleFromAcceptLanguage(header: string | null) {
+  if (!header) return null;
+
+  const tags = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params
+        .map((param) => /^q=([\d.]+)$/.exec(param.trim())?.[1])
+        .find(Boolean);
+      return {tag: tag.toLowerCase(), quality: quality ? Number(quality) : 1};
+    })
+    .filter(({tag, quality}) => tag && tag !== '*' && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const {tag} of tags) {
+    const [language] = tag.split('-');
+    const locale =
+      findLocale(tag) ??
+      LOCALES.find(
+        (candidate) => candidate.language.toLowerCase() === language,
+      );
+    if (locale) return locale;
+  }
+
+  return null;
+}
+
+// Cookie remembering the locale picked in the country selector
+export const LOCALE_COOKIE = 'locale';
+
+// A year, so the picked locale outlasts the session
+const LOCALE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+function getLocaleFromCookie(header: string | null) {
+  const match = new RegExp(`(?:^|;\\s*)${LOCALE_COOKIE}=([a-z-]+)`, 'i').exec(
+    header ?? '',
+  );
+  return findLocale(match?.[1]);
+}
+
+export function serializeLocaleCookie(locale: Locale) {
+  return `${LOCALE_COOKIE}=${getLocaleKey(
+    locale,
+  )}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+}
+
+/**
+ * The locale to serve a request in: the one in the URL prefix, else the
+ * default. Unprefixed URLs are only ever rendered in the default locale, so
+ * they can be cached; see `getLocaleRedirect` for other visitors.
+ */
+export function getLocaleFromRequest(request: Request): Locale {
+  return getLocaleFromPath(new URL(request.url).pathname) ?? DEFAULT_LOCALE;
+}
+
+/**
+ * The locale a visitor wants: the one picked in the country selector, else
+ * their preferred language, else the default.
+ */
+export function getPreferredLocale(request: Request): Locale {
+  const {headers} = request;
+
+  return (
+    getLocaleFromCookie(headers.get('Cookie')) ??
+    getLocaleFromAcceptLanguage(headers.get('Accept-Language')) ??
+    DEFAULT_LOCALE
+  );
+}
+
+// Resources that are the same in every locale, and so never redirected
+const UNLOCALIZED_PATH = /^\/(?:api\/|__debug\/|robots\.txt$|sitemap\.xml$)/;
+
+// Page loads of an unprefixed URL; data requests follow their page's URL
+function isUnprefixedPage(request: Request) {
+  const {pathname, searchParams} = new URL(request.url);
+  return (
+    (request.method === 'GET' || request.method === 'HEAD') &&
+    !searchParams.has('_data') &&
+    !getLocaleFromPath(pathname) &&
+    !UNLOCALIZED_PATH.test(pathname)
+  );
+}
+
+/**
+ * Sends a visitor who prefers another locale from an unprefixed page to
+ * the same page under that locale's prefix. `null` when there is nothing
+ * to redirect.
+ */
+export function getLocaleRedirect(request: Request) {
+  if (!isUnprefixedPage(request)) return null;
+
+  const locale = getPreferredLocale(request);
+  if (!locale.pathPrefix) return null;
+
+  const {pathname, search} = new URL(request.url);
+  return new Response(null, {
+    status: 302,
+    headers: {Location: `${localizePath(locale, pathname)}${search}`},
+  });
+}
+
+/**
+ * Tells caches that the response of an unprefixed page, redirected or not,
+ * depends on the headers `getPreferredLocale` reads.
+ */
+export function varyByPreferredLocale(request: Request, response: Response) {
+  if (isUnprefixedPage(request)) {
+    response.headers.append('Vary', 'Cookie, Accept-Language');
+  }
+}
+
+// Drops a locale prefix, so `/fr-ca/cart` and `/cart` both give `/cart`
+export function stripLocalePrefix(pathname: string) {
+  const locale = getLocaleFromPath(pathname);
+  if (!locale) return pathname;
+  return pathname.slice(locale.pathPrefix.length) || '/';
+}
+
+/**
+ * Points an app path at a locale, e.g. `/cart` at `/fr-ca/cart`. Relative
+ * paths and paths that already carry a locale are left alone.
+ */
+export function localizePath(locale: Pick<Locale, 'pathPrefix'>, path: string) {
+  if (!path.startsWith('/') || path.startsWith('//')) return path;
+  if (getLocaleFromPath(path)) return path;
+  if (!locale.pathPrefix) return path;
+  return path === '/' ? locale.pathPrefix : `${locale.pathPrefix}${path}`;
+}
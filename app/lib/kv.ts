@@ -0,0 +1,133 @@
+/**
+ * The part of a Workers KV namespace the app needs. Any key-value store
+ * with the same shape will do.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(
+    key: string,
+    value: string,
+    options?: {expirationTtl?: number},
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * A `KeyValueStore` over a Redis REST endpoint, such as Upstash's, that
+ * takes a command as a JSON array and answers with `{result}`.
+ */
+export function createRedisRestKV(url: string, token: string): KeyValueStore {
+  const command = async (args: (string | number)[]) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Key-value store responded with ${response.status}`);
+    }
+
+    const {result} = (await response.json()) as {result: unknown};
+    return result;
+  };
+
+  return {
+    async get(key) {
+      const result = await command(['GET', key]);
+      return typeof result === 'string' ? result : null;
+    },
+    async put(key, value, options) {
+      await command(
+        options?.expirationTtl
+          ? ['SET', key, value, 'EX', options.expirationTtl]
+          : ['SET', key, value],
+      );
+    },
+    async delete(key) {
+      await command(['DEL', key]);
+    },
+  };
+}
+
+/**
+ * Keeps values in this server's memory. They are lost on restart and not
+ * shared between instances, so it only suits development.
+ */
+export function createMemoryKV(): KeyValueStore {
+  const store = new Map<string, {value: string; expiresAt: number}>();
+
+  return {
+    async get(key) {
+      const entry = store.get(key);
+      if (entry && entry.expiresAt < Date.now()) store.delete(key);
+      return store.get(key)?.value ?? null;
+    },
+    async put(key, value, options) {
+      const ttl = options?.expirationTtl;
+      store.set(key, {
+        value,
+        expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity,
+      });
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+  };
+}
+
+/**
+ * The store configured with a `SESSION_KV` binding, or `SESSION_KV_URL`
+ * and `SESSION_KV_TOKEN`, if any.
+ */
+export function getConfiguredKV(env: Env): KeyValueStore | null {
+  if (env.SESSION_KV) return env.SESSION_KV;
+  if (env.SESSION_KV_URL && env.SESSION_KV_TOKEN) {
+    return createRedisRestKV(env.SESSION_KV_URL, env.SESSION_KV_TOKEN);
+  }
+  return null;
+}
+
+let memoryKV: KeyValueStore | undefined;
+
+/**
+ * Where data that belongs to a customer rather than a browser is kept: the
+ * configured store, or memory in development. Memory forgets everything on
+ * restart and is not shared between instances, so production needs a store.
+ */
+export function getKV(env: Env) {
+  const kv = getConfiguredKV(env);
+  if (kv) return kv;
+
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Error(
+      'Customer data needs a SESSION_KV binding or SESSION_KV_URL and SESSION_KV_TOKEN',
+    );
+  }
+
+  memoryKV ??= createMemoryKV();
+  return memoryKV;
+}
+
+export async function getJSON<T>(kv: KeyValueStore, key: string) {
+  const value = await kv.get(key);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    // A corrupt entry reads as a missing one
+    return null;
+  }
+}
+
+export function putJSON(
+  kv: KeyValueStore,
+  key: string,
+  value: unknown,
+  options?: {expirationTtl?: number},
+) {
+  return kv.put(key, JSON.stringify(value), options);
+}
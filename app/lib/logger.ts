@@ -0,0 +1,148 @@
+import type {QueryRecord} from '~/lib/storefront';
+import type {TimingName, Timings} from '~/lib/timing';
+
+type LogLevel = 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one JSON line, so logs can be searched by field, e.g. every line
+ * of one request by its `requestId`.
+ */
+export function writeLog(level: LogLevel, message: string, fields: LogFields) {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...fields,
+  });
+
+  /* eslint-disable no-console */
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+  /* eslint-enable no-console */
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * The id of a request: the one a proxy in front of us passed along, or a
+ * new one.
+ */
+export function getRequestId(request: Request) {
+  const requestId = request.headers.get(REQUEST_ID_HEADER);
+  return requestId && /^[\w-]{1,64}$/.test(requestId)
+    ? requestId
+    : crypto.randomUUID();
+}
+
+export type RequestSummary = {
+  requestId: string;
+  method: string;
+  path: string;
+  route: string | null;
+  status: number;
+  startedAt: string;
+  duration: number;
+  timings: Timings;
+  queries: QueryRecord[];
+};
+
+/**
+ * Logs one request: a line once its response is ready, with the route it
+ * matched, its status, how long it took and the Storefront API queries it
+ * made. Loaders get it as `context.logger` to log lines of their own.
+ */
+export class RequestLogger {
+  readonly requestId: string;
+  private startTime = new Date();
+  private method: string;
+  private path: string;
+  private route: string | null;
+  private queries: QueryRecord[] = [];
+  private timings: Timings = {};
+  private summary: RequestSummary | null = null;
+
+  constructor(request: Request) {
+    const url = new URL(request.url);
+    this.requestId = getRequestId(request);
+    this.method = request.method;
+    this.path = url.pathname;
+    // Data requests name their route; document requests set it on render
+    this.route = url.searchParams.get('_data');
+  }
+
+  setRoute(route: string) {
+    this.route = route;
+  }
+
+  // Milliseconds since the request came in
+  elapsed() {
+    return Date.now() - this.startTime.getTime();
+  }
+
+  recordTiming(name: TimingName, duration: number) {
+    this.timings[name] = duration;
+  }
+
+  /**
+   * Adds a Storefront API query to the request line. Deferred queries can
+   * settle after the response started streaming, so they get a line of
+   * their own.
+   */
+  recordQuery(query: QueryRecord) {
+    this.queries.push(query);
+    if (this.summary) this.info('Storefront API query', {...query});
+  }
+
+  info(message: string, fields: LogFields = {}) {
+    writeLog('info', message, {requestId: this.requestId, ...fields});
+  }
+
+  warn(message: string, fields: LogFields = {}) {
+    writeLog('warn', message, {requestId: this.requestId, ...fields});
+  }
+
+  error(message: string, fields: LogFields = {}) {
+    writeLog('error', message, {requestId: this.requestId, ...fields});
+  }
+
+  /**
+   * Writes the request line. Returns what it logged, with `queries` still
+   * growing as deferred queries settle.
+   */
+  finish(status: number): RequestSummary {
+    if (this.summary) return this.summary;
+
+    const duration = this.elapsed();
+    const fields = {
+      method: this.method,
+      path: this.path,
+      route: this.route,
+      status,
+      duration,
+      timings: {
+        // Resource routes never render, so all of their time is loading
+        loader: this.timings.loader ?? duration,
+        storefront: this.queries.reduce(
+          (total, query) => total + query.duration,
+          0,
+        ),
+        render: this.timings.render,
+        total: duration,
+      },
+      queries: this.queries,
+    };
+
+    if (status >= 500) this.error('Request failed', fields);
+    else this.info('Request', fields);
+
+    this.summary = {
+      ...fields,
+      requestId: this.requestId,
+      startedAt: this.startTime.toISOString(),
+    };
+    return this.summary;
+  }
+}
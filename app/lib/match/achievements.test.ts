@@ -0,0 +1,42 @@
+import {describe, expect, it} from 'vitest';
+import {getEarnedAchievements, hasReversedMove} from './achievements';
+
+describe('hasReversedMove', () => {
+  it('spots boxes sent straight back', () => {
+    expect(
+      hasReversedMove([
+        {from: 0, to: 2, count: 2},
+        {from: 2, to: 0, count: 2},
+      ]),
+    ).toBe(true);
+  });
+
+  it('ignores moves between the same stacks with other boxes', () => {
+    expect(
+      hasReversedMove([
+        {from: 0, to: 2, count: 2},
+        {from: 2, to: 0, count: 3},
+        {from: 1, to: 0, count: 1},
+      ]),
+    ).toBe(false);
+  });
+});
+
+describe('getEarnedAchievements', () => {
+  it('only grants the no-undo badge without take-backs', () => {
+    const win = {
+      difficulty: 'easy' as const,
+      moves: 12,
+      optimalMoves: 10,
+      streak: null,
+    };
+
+    expect(getEarnedAchievements({...win, tookBack: false})).toEqual([
+      'firstWin',
+      'noUndoWin',
+    ]);
+    expect(getEarnedAchievements({...win, tookBack: true})).toEqual([
+      'firstWin',
+    ]);
+  });
+});
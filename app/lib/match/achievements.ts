@@ -0,0 +1,126 @@
+import type {Difficulty, Move} from './engine';
+import {type KeyValueStore, getJSON, putJSON} from '../kv';
+
+// Daily wins in a row needed for the streak achievement
+const STREAK_GOAL = 7;
+
+export type AchievementId =
+  | 'firstWin'
+  | 'hardWin'
+  | 'noUndoWin'
+  | 'weekStreak'
+  | 'optimalSolve';
+
+export type Achievement = {
+  name: string;
+  description: string;
+};
+
+export const ACHIEVEMENTS: Record<AchievementId, Achievement> = {
+  firstWin: {name: 'First win', description: 'Solve your first board'},
+  hardWin: {
+    name: 'Hard case',
+    description: 'Solve a board on Hard or Expert',
+  },
+  noUndoWin: {
+    name: 'No regrets',
+    description: 'Solve a board without taking back a move',
+  },
+  weekStreak: {
+    name: 'Creature of habit',
+    description: `Solve the daily challenge ${STREAK_GOAL} days in a row`,
+  },
+  optimalSolve: {
+    name: 'Purrfect',
+    description: 'Solve a board in the fewest possible moves',
+  },
+};
+
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+// When each achievement was unlocked, as an ISO date
+export type AchievementRecord = Partial<Record<AchievementId, string>>;
+
+/**
+ * The achievements a verified win earns. `streak` is the daily streak
+ * after the win, or `null` when it was not a daily challenge.
+ */
+export function getEarnedAchievements({
+  difficulty,
+  moves,
+  optimalMoves,
+  tookBack,
+  streak,
+}: {
+  difficulty: Difficulty;
+  moves: number;
+  optimalMoves: number;
+  tookBack: boolean;
+  streak: number | null;
+}) {
+  const earned: AchievementId[] = ['firstWin'];
+
+  if (difficulty === 'hard' || difficulty === 'expert') earned.push('hardWin');
+  if (!tookBack) earned.push('noUndoWin');
+  if (streak !== null && streak >= STREAK_GOAL) earned.push('weekStreak');
+  if (moves <= optimalMoves) earned.push('optimalSolve');
+
+  return earned;
+}
+
+/**
+ * Whether a move in a solution sends boxes straight back where they came
+ * from, which is a take-back made by hand rather than with undo.
+ */
+export function hasReversedMove(moves: Move[]) {
+  return moves.some((move, i) => {
+    const previous = moves[i - 1];
+    return (
+      previous?.from === move.to &&
+      previous.to === move.from &&
+      previous.count === move.count
+    );
+  });
+}
+
+/**
+ * Adds earned achievements to a record. Returns the updated record and the
+ * achievements unlocked just now, so they can be celebrated.
+ */
+export function unlockAchievements(
+  record: AchievementRecord | undefined,
+  earned: AchievementId[],
+  now = new Date(),
+) {
+  const current = record ?? {};
+  const unlocked = earned.filter((id) => !current[id]);
+  const unlockedAt = now.toISOString();
+
+  return {
+    record: {
+      ...current,
+      ...Object.fromEntries(unlocked.map((id) => [id, unlockedAt])),
+    } as AchievementRecord,
+    unlocked,
+  };
+}
+
+function getAchievementsKey(customerId: string) {
+  return `match:achievements:${customerId}`;
+}
+
+// Achievements are kept per customer, so they follow them to every device
+export async function loadAchievements(kv: KeyValueStore, customerId: string) {
+  return (
+    (await getJSON<AchievementRecord>(kv, getAchievementsKey(customerId))) ??
+    undefined
+  );
+}
+
+export function saveAchievements(
+  kv: KeyValueStore,
+  customerId: string,
+  record: AchievementRecord,
+) {
+  return putJSON(kv, getAchievementsKey(customerId), record);
+}
@@ -0,0 +1,116 @@
+import {describe, expect, it} from 'vitest';
+import {MAX_BATCH_SIZE, type TrackedEvent, parseEventBatch} from './analytics';
+
+const TIMESTAMP = '2024-05-01T12:00:00.000Z';
+
+const MOVE: TrackedEvent = {
+  type: 'move',
+  seed: 'abc123',
+  from: 0,
+  to: 2,
+  count: 1,
+  moveCount: 4,
+  timestamp: TIMESTAMP,
+};
+
+function createBatch(events: unknown[]) {
+  return {sessionId: 'f3b2c1d0-visit', events};
+}
+
+describe('parseEventBatch', () => {
+  it('reads a batch that follows the schema', () => {
+    const win: TrackedEvent = {
+      type: 'win',
+      seed: 'abc123',
+      difficulty: 'easy',
+      mode: 'classic',
+      moveCount: 12,
+      duration: 45000,
+      hintsUsed: 0,
+      timestamp: TIMESTAMP,
+    };
+
+    expect(parseEventBatch(createBatch([MOVE, win]))).toEqual(
+      createBatch([MOVE, win]),
+    );
+    expect(parseEventBatch(createBatch([]))).toEqual(createBatch([]));
+  });
+
+  it('drops fields the schema does not know', () => {
+    const batch = parseEventBatch({
+      ...createBatch([{...MOVE, email: 'player@example.com'}]),
+      userAgent: 'Mozilla/5.0',
+    });
+
+    expect(batch).toEqual(createBatch([MOVE]));
+  });
+
+  it('rejects bodies that are not a batch', () => {
+    for (const body of [
+      null,
+      'events',
+      [],
+      {events: [MOVE]},
+      {sessionId: 'visit', events: {0: MOVE}},
+      {sessionId: '', events: []},
+      {sessionId: 'not a/session', events: []},
+      {sessionId: 'x'.repeat(65), events: []},
+    ]) {
+      expect(() => parseEventBatch(body)).toThrow('Invalid event batch');
+    }
+  });
+
+  it(`rejects more than ${MAX_BATCH_SIZE} events`, () => {
+    const events = Array.from({length: MAX_BATCH_SIZE}, () => MOVE);
+
+    expect(parseEventBatch(createBatch(events)).events).toHaveLength(
+      MAX_BATCH_SIZE,
+    );
+    expect(() => parseEventBatch(createBatch([...events, MOVE]))).toThrow(
+      `At most ${MAX_BATCH_SIZE} events can be sent at once`,
+    );
+  });
+
+  it('rejects events without a known type or a timestamp', () => {
+    const {timestamp: _, ...untimed} = MOVE;
+
+    for (const event of [
+      null,
+      'move',
+      {...MOVE, type: 'purchase'},
+      {...MOVE, type: 'toString'},
+      untimed,
+      {...MOVE, timestamp: 'yesterday'},
+      {...MOVE, timestamp: `${TIMESTAMP}${' '.repeat(64)}`},
+    ]) {
+      expect(() => parseEventBatch(createBatch([MOVE, event]))).toThrow(
+        'Event 1 has no known type or timestamp',
+      );
+    }
+  });
+
+  it('rejects fields of the wrong kind', () => {
+    const {seed: _, ...unseeded} = MOVE;
+
+    expect(() => parseEventBatch(createBatch([unseeded]))).toThrow(
+      'Event 0 (move) has an invalid seed',
+    );
+    expect(() => parseEventBatch(createBatch([{...MOVE, from: '0'}]))).toThrow(
+      'Event 0 (move) has an invalid from',
+    );
+    for (const count of [NaN, Infinity]) {
+      expect(() => parseEventBatch(createBatch([{...MOVE, count}]))).toThrow(
+        'Event 0 (move) has an invalid count',
+      );
+    }
+  });
+
+  it('rejects oversized strings', () => {
+    expect(
+      parseEventBatch(createBatch([{...MOVE, seed: 'x'.repeat(64)}])).events,
+    ).toHaveLength(1);
+    expect(() =>
+      parseEventBatch(createBatch([{...MOVE, seed: 'x'.repeat(65)}])),
+    ).toThrow('Event 0 (move) has an invalid seed');
+  });
+});
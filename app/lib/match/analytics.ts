@@ -0,0 +1,225 @@
+import type {Difficulty} from './engine';
+import type {GameMode, LossReason} from './modes';
+import {createSeed} from './random';
+
+/**
+ * What happens during a Cat Sort game, on the board of `seed`. `moveCount`
+ * counts the moves on the board after the event, `duration` the ms since
+ * it was dealt.
+ */
+export type AnalyticsEvent =
+  | {type: 'game_start'; seed: string; difficulty: Difficulty; mode: GameMode}
+  | {
+      type: 'move';
+      seed: string;
+      from: number;
+      to: number;
+      count: number;
+      moveCount: number;
+    }
+  | {type: 'undo'; seed: string; moveCount: number}
+  | {type: 'reset'; seed: string; moveCount: number}
+  | {
+      type: 'win';
+      seed: string;
+      difficulty: Difficulty;
+      mode: GameMode;
+      moveCount: number;
+      duration: number;
+      hintsUsed: number;
+    }
+  | {
+      type: 'loss';
+      seed: string;
+      reason: LossReason;
+      moveCount: number;
+      duration: number;
+    };
+
+// An event as the client sends it, stamped with when it happened
+export type TrackedEvent = AnalyticsEvent & {timestamp: string};
+
+/**
+ * The body of a `POST /api/events`. `sessionId` is made up per page load,
+ * so a visit's events can be told apart without identifying the player.
+ */
+export type EventBatch = {
+  sessionId: string;
+  events: TrackedEvent[];
+};
+
+// An event as the sink stores it
+export type RecordedEvent = TrackedEvent & {
+  sessionId: string;
+  receivedAt: string;
+};
+
+// Events sent in one request; larger batches are rejected
+export const MAX_BATCH_SIZE = 50;
+
+// How long the client collects events before sending them, in ms
+const FLUSH_INTERVAL = 5000;
+
+const EVENT_FIELDS: Record<
+  AnalyticsEvent['type'],
+  Record<string, 'string' | 'number'>
+> = {
+  game_start: {seed: 'string', difficulty: 'string', mode: 'string'},
+  move: {
+    seed: 'string',
+    from: 'number',
+    to: 'number',
+    count: 'number',
+    moveCount: 'number',
+  },
+  undo: {seed: 'string', moveCount: 'number'},
+  reset: {seed: 'string', moveCount: 'number'},
+  win: {
+    seed: 'string',
+    difficulty: 'string',
+    mode: 'string',
+    moveCount: 'number',
+    duration: 'number',
+    hintsUsed: 'number',
+  },
+  loss: {
+    seed: 'string',
+    reason: 'string',
+    moveCount: 'number',
+    duration: 'number',
+  },
+};
+
+function isEventType(value: unknown): value is AnalyticsEvent['type'] {
+  return typeof value === 'string' && Object.hasOwn(EVENT_FIELDS, value);
+}
+
+function isTimestamp(value: unknown): value is string {
+  return (
+    typeof value === 'string' &&
+    value.length <= 64 &&
+    !Number.isNaN(Date.parse(value))
+  );
+}
+
+/**
+ * Reads a batch posted by the client. Throws when it does not follow the
+ * schema above; fields the schema does not know are dropped.
+ */
+export function parseEventBatch(value: unknown): EventBatch {
+  const batch = value as {sessionId?: unknown; events?: unknown} | null;
+
+  if (
+    typeof batch?.sessionId !== 'string' ||
+    !/^[a-z0-9-]{1,64}$/i.test(batch.sessionId) ||
+    !Array.isArray(batch.events)
+  ) {
+    throw new Error('Invalid event batch');
+  }
+  if (batch.events.length > MAX_BATCH_SIZE) {
+    throw new Error(`At most ${MAX_BATCH_SIZE} events can be sent at once`);
+  }
+
+  const events = batch.events.map((value: unknown, index) => {
+    const event = value as Record<string, unknown> | null;
+    const type = event?.type;
+
+    if (!event || !isEventType(type) || !isTimestamp(event.timestamp)) {
+      throw new Error(`Event ${index} has no known type or timestamp`);
+    }
+
+    const fields = Object.entries(EVENT_FIELDS[type]).map(([field, kind]) => {
+      const fieldValue = event[field];
+      if (
+        typeof fieldValue !== kind ||
+        (kind === 'string' && String(fieldValue).length > 64) ||
+        (kind === 'number' && !Number.isFinite(fieldValue))
+      ) {
+        throw new Error(`Event ${index} (${type}) has an invalid ${field}`);
+      }
+      return [field, fieldValue];
+    });
+
+    return {
+      type,
+      ...Object.fromEntries(fields),
+      timestamp: event.timestamp,
+    } as TrackedEvent;
+  });
+
+  return {sessionId: batch.sessionId, events};
+}
+
+/**
+ * Collects events in the browser and posts them to `/api/events` in
+ * batches: once `MAX_BATCH_SIZE` events are waiting, a few seconds after
+ * the first one, or when `flush` is called, e.g. as the page is left.
+ */
+export class AnalyticsClient {
+  private events: TrackedEvent[] = [];
+  private timeout: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private endpoint = '/api/events',
+    private sessionId = createSeed(),
+  ) {}
+
+  track(event: AnalyticsEvent) {
+    this.events.push({...event, timestamp: new Date().toISOString()});
+
+    if (this.events.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    } else {
+      this.timeout ??= setTimeout(() => this.flush(), FLUSH_INTERVAL);
+    }
+  }
+
+  flush() {
+    if (this.timeout) clearTimeout(this.timeout);
+    this.timeout = null;
+
+    if (!this.events.length) return;
+
+    const batch: EventBatch = {sessionId: this.sessionId, events: this.events};
+    this.events = [];
+
+    // keepalive lets the request finish while the page unloads
+    return fetch(this.endpoint, {
+      method: 'POST',
+      body: JSON.stringify(batch),
+      headers: {'Content-Type': 'application/json'},
+      keepalive: true,
+    }).catch(() => {
+      // Analytics are best effort; a lost batch is not worth a retry
+    });
+  }
+}
+
+/**
+ * Where the `/api/events` route writes the events it receives.
+ */
+export type AnalyticsSink = {
+  write(events: RecordedEvent[]): Promise<void>;
+};
+
+// Logs one JSON line per event
+export function createConsoleSink(): AnalyticsSink {
+  return {
+    async write(events) {
+      for (const event of events) {
+        // eslint-disable-next-line no-console
+        console.log(JSON.stringify(event));
+      }
+    },
+  };
+}
+
+const sink = createConsoleSink();
+
+/**
+ * The analytics sink for this server. Workers have no file system, so
+ * events go to the console, where the host's log drain can collect them.
+ */
+export function getAnalyticsSink() {
+  return sink;
+}
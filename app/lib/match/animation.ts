@@ -0,0 +1,98 @@
+/**
+ * Runs board updates one after another. Each task may change the board and
+ * then wait for its animation, so a move, an undo and another move queued
+ * in quick succession play in order instead of racing each other.
+ */
+export class AnimationQueue {
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+  // Bumped by `clear` so tasks queued before it are skipped
+  private generation = 0;
+
+  constructor(private onBusyChange?: (busy: boolean) => void) {}
+
+  get isBusy() {
+    return this.pending > 0;
+  }
+
+  enqueue(task: () => Promise<void> | void) {
+    const generation = this.generation;
+
+    if (this.pending++ === 0) this.onBusyChange?.(true);
+
+    this.tail = this.tail.then(async () => {
+      try {
+        if (generation === this.generation) await task();
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('Cat Sort animation failed', error);
+      } finally {
+        if (--this.pending === 0) this.onBusyChange?.(false);
+      }
+    });
+
+    return this.tail;
+  }
+
+  // Drops every task that has not started yet, e.g. when a new board is dealt
+  clear() {
+    this.generation++;
+  }
+}
+
+export function prefersReducedMotion() {
+  return (
+    typeof window !== 'undefined' &&
+    window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+  );
+}
+
+/**
+ * Records where every box inside `container` is, keyed by its
+ * `data-box-id`. Taken before the board changes, it is the "first" of a
+ * FLIP animation.
+ */
+export function measureBoxes(container: HTMLElement) {
+  const rects = new Map<string, DOMRect>();
+
+  container.querySelectorAll<HTMLElement>('[data-box-id]').forEach((box) => {
+    rects.set(box.dataset.boxId!, box.getBoundingClientRect());
+  });
+
+  return rects;
+}
+
+/**
+ * Slides every box that moved since `before` was measured from its old
+ * position into the slot it occupies now. Resolves once all boxes landed.
+ */
+export function playFlip(
+  container: HTMLElement,
+  before: Map<string, DOMRect>,
+  duration: number,
+) {
+  const animations: Promise<unknown>[] = [];
+
+  container.querySelectorAll<HTMLElement>('[data-box-id]').forEach((box) => {
+    const first = before.get(box.dataset.boxId!);
+    if (!first) return;
+
+    const last = box.getBoundingClientRect();
+    const dx = first.left - last.left;
+    const dy = first.top - last.top;
+    if (!dx && !dy) return;
+
+    const animation = box.animate(
+      [
+        {transform: `translate(${dx}px, ${dy}px)`, zIndex: 50},
+        {transform: 'none', zIndex: 50},
+      ],
+      {duration, easing: 'ease-in-out'},
+    );
+
+    // A cancelled animation still counts as landed
+    animations.push(animation.finished.catch(() => undefined));
+  });
+
+  return Promise.all(animations).then(() => undefined);
+}
@@ -0,0 +1,28 @@
+import {type GameState, type Move, getMatchingTopBoxes} from './engine';
+
+/**
+ * Screen reader text for one stack, e.g. "Stack 2: 3 Luna on top, 4 of 4
+ * cats". Stacks are numbered from 1 as on the keyboard.
+ */
+export function describeStack(state: GameState, index: number) {
+  const stack = state.stacks[index];
+  const kind = state.stackKinds[index];
+
+  if (kind === 'blocked') return `Stack ${index + 1}: blocked`;
+
+  const label = `Stack ${index + 1}${kind === 'locked' ? ' (locked)' : ''}`;
+  if (stack.length === 0) return `${label}: empty`;
+
+  const topBoxes = getMatchingTopBoxes(stack);
+  return `${label}: ${topBoxes.length} ${topBoxes[0].cat.name} on top, ${stack.length} of ${state.stackSize} cats`;
+}
+
+/**
+ * Screen reader text for a move, given the board before it was played.
+ */
+export function describeMove(state: GameState, move: Move) {
+  const catName = state.stacks[move.from][0]?.cat.name ?? 'cats';
+  return `Moved ${move.count} ${catName} from stack ${move.from + 1} to stack ${
+    move.to + 1
+  }`;
+}
@@ -0,0 +1,142 @@
+import type {Storefront} from '@shopify/hydrogen';
+import type {Cat} from './engine';
+
+// Collection whose products are used as cats when none is configured
+export const DEFAULT_CATS_COLLECTION = 'adoptable-cats';
+
+// Largest number of cats any difficulty puts on the board
+const MAX_CATS = 8;
+
+const images = [
+  'https://img.freepik.com/free-vector/cute-cat-stretching-cartoon-vector-icon-illustration-animal-nature-icon-isolated-flat-vector_138676-13782.jpg',
+  'https://img.freepik.com/free-vector/cute-cat-with-love-sign-hand-cartoon-illustration-animal-nature-concept-isolated-flat-cartoon-style_138676-3419.jpg',
+  'https://img.freepik.com/premium-vector/vector-illustration-cute-cat-kids-story-book_925324-13973.jpg',
+  'https://img.freepik.com/premium-vector/cute-cat-sitting-cartoon-vector-illustration_9845-584.jpg',
+  'https://img.freepik.com/free-vector/cute-cat-hole-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-vector-flat-cartoon-style_138676-4236.jpg',
+  'https://img.freepik.com/premium-vector/cute-kawaii-smiling-cat-animal-pet-logo-vector-icon-illustration-flat-style_126068-94.jpg',
+  'https://img.freepik.com/free-vector/cute-cat-sitting-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-flat_138676-4556.jpg',
+  'https://img.freepik.com/free-vector/cute-cat-playing-pow-cartoon-vector-icon-illustration-animal-nature-icon-concept-isolated-premium-vector-flat-cartoon-style_138676-4074.jpg',
+];
+const names = [
+  `Whiskers`,
+  `Mittens`,
+  `Fluffy`,
+  `Shadow`,
+  `Luna`,
+  `Oliver`,
+  `Leo`,
+  `Bella`,
+];
+const primaryColors = [
+  '#f39c12',
+  '#3498db',
+  '#2ecc71',
+  '#9b59b6',
+  '#e74c3c',
+  '#1abc9c',
+  '#f1c40f',
+  '#34495e',
+];
+const secondaryColors = [
+  '#e67e22',
+  '#2980b9',
+  '#27ae60',
+  '#8e44ad',
+  '#c0392b',
+  '#16a085',
+  '#f39c12',
+  '#2c3e50',
+];
+
+// Placeholder cats used when the cats collection has too few products
+export const PLACEHOLDER_CATS: Cat[] = names.map((name, i) => ({
+  id: `cat-${i}`,
+  name,
+  image: images[i],
+  primaryColor: primaryColors[i],
+  secondaryColor: secondaryColors[i],
+}));
+
+/**
+ * Loads the cats for the game from a collection. Each product becomes a
+ * cat with its title, featured image, first variant and the `custom.color` and
+ * `custom.secondary_color` metafields; products without a color borrow one
+ * from the placeholder palette. Placeholder cats make up for a collection
+ * that is missing or has fewer products than the largest board needs, so
+ * every difficulty deals as many cats as it promises.
+ */
+export async function getMatchCats(
+  storefront: Storefront,
+  collectionHandle = DEFAULT_CATS_COLLECTION,
+): Promise<Cat[]> {
+  const {collection} = await storefront.query(MATCH_CATS_QUERY, {
+    cache: storefront.CacheLong(),
+    variables: {
+      handle: collectionHandle,
+      first: MAX_CATS,
+      country: storefront.i18n.country,
+      language: storefront.i18n.language,
+    },
+  });
+
+  const products = collection?.products.nodes ?? [];
+  const productCats = products.map((product, i): Cat => {
+    const variant = product.variants.nodes[0];
+
+    return {
+      id: product.handle,
+      name: product.title,
+      image: product.featuredImage?.url ?? images[i % images.length],
+      primaryColor:
+        product.primaryColor?.value ?? primaryColors[i % primaryColors.length],
+      secondaryColor:
+        product.secondaryColor?.value ??
+        secondaryColors[i % secondaryColors.length],
+      product: variant && {
+        handle: product.handle,
+        variantId: variant.id,
+        availableForSale: variant.availableForSale,
+      },
+    };
+  });
+
+  return [...productCats, ...PLACEHOLDER_CATS.slice(productCats.length)];
+}
+
+const MATCH_CATS_QUERY = `#graphql
+  query MatchCats(
+    $handle: String!
+    $first: Int!
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
+    collection(handle: $handle) {
+      products(first: $first) {
+        nodes {
+          id
+          handle
+          title
+          featuredImage {
+            url
+            altText
+          }
+          variants(first: 1) {
+            nodes {
+              id
+              availableForSale
+            }
+          }
+          primaryColor: metafield(namespace: "custom", key: "color") {
+            value
+          }
+          secondaryColor: metafield(
+            namespace: "custom"
+            key: "secondary_color"
+          ) {
+            value
+          }
+        }
+      }
+    }
+  }
+` as const;
@@ -0,0 +1,114 @@
+import {describe, expect, it} from 'vitest';
+import {PLACEHOLDER_CATS} from './cats';
+import {
+  type DailyChallenge,
+  type DailyRecord,
+  getCurrentStreak,
+  getDailyChallenge,
+  getDailyKey,
+  recordDailyResult,
+} from './daily';
+
+// One board serves every day; only the day decides how streaks roll over
+const {puzzle} = getDailyChallenge(PLACEHOLDER_CATS, '2026-03-01');
+
+function onDay(day: string): DailyChallenge {
+  return {day, difficulty: 'easy', puzzle};
+}
+
+function wonOn(day: string, streak: number): DailyRecord {
+  return {
+    lastResult: {day, moves: 10, optimalMoves: puzzle.optimalMoves},
+    streak,
+  };
+}
+
+describe('getDailyKey', () => {
+  it('uses the UTC day whatever the time zone', () => {
+    expect(getDailyKey(new Date('2026-03-01T23:30:00-05:00'))).toBe(
+      '2026-03-02',
+    );
+    expect(getDailyKey(new Date('2026-03-02T00:30:00+02:00'))).toBe(
+      '2026-03-01',
+    );
+  });
+});
+
+describe('recordDailyResult', () => {
+  it('starts a streak with the first win', () => {
+    expect(
+      recordDailyResult(undefined, onDay('2026-03-01'), puzzle.solution),
+    ).toEqual({
+      lastResult: {
+        day: '2026-03-01',
+        moves: puzzle.solution.length,
+        optimalMoves: puzzle.optimalMoves,
+      },
+      streak: 1,
+    });
+  });
+
+  it('extends the streak of a win yesterday', () => {
+    const record = recordDailyResult(
+      wonOn('2026-03-01', 4),
+      onDay('2026-03-02'),
+      puzzle.solution,
+    );
+    expect(record.streak).toBe(5);
+  });
+
+  it('carries the streak over month and year boundaries', () => {
+    expect(
+      recordDailyResult(
+        wonOn('2026-02-28', 2),
+        onDay('2026-03-01'),
+        puzzle.solution,
+      ).streak,
+    ).toBe(3);
+    expect(
+      recordDailyResult(
+        wonOn('2025-12-31', 2),
+        onDay('2026-01-01'),
+        puzzle.solution,
+      ).streak,
+    ).toBe(3);
+  });
+
+  it('starts over once a day was missed', () => {
+    const record = recordDailyResult(
+      wonOn('2026-03-01', 4),
+      onDay('2026-03-03'),
+      puzzle.solution,
+    );
+    expect(record.streak).toBe(1);
+  });
+
+  it('only counts the first win of a day', () => {
+    const record = wonOn('2026-03-02', 4);
+
+    expect(
+      recordDailyResult(record, onDay('2026-03-02'), puzzle.solution),
+    ).toBe(record);
+  });
+
+  it('refuses moves that do not solve the board', () => {
+    expect(() =>
+      recordDailyResult(
+        undefined,
+        onDay('2026-03-01'),
+        puzzle.solution.slice(0, -1),
+      ),
+    ).toThrow('The submitted moves do not solve the daily puzzle');
+  });
+});
+
+describe('getCurrentStreak', () => {
+  it('keeps the streak until a full day is missed', () => {
+    const record = wonOn('2026-03-01', 4);
+
+    expect(getCurrentStreak(record, '2026-03-01')).toBe(4);
+    expect(getCurrentStreak(record, '2026-03-02')).toBe(4);
+    expect(getCurrentStreak(record, '2026-03-03')).toBe(0);
+    expect(getCurrentStreak(undefined, '2026-03-01')).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  type Cat,
+  type Difficulty,
+  type Move,
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  isSolved,
+  replayMoves,
+} from './engine';
+import {type Puzzle, generatePuzzle} from './puzzle';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Session key holding the player's daily challenge history
+export const DAILY_SESSION_KEY = 'catSortDaily';
+
+export type DailyChallenge = {
+  day: string;
+  difficulty: Difficulty;
+  puzzle: Puzzle;
+};
+
+export type DailyResult = {
+  day: string;
+  moves: number;
+  optimalMoves: number;
+};
+
+export type DailyRecord = {
+  lastResult: DailyResult | null;
+  streak: number;
+};
+
+/**
+ * Returns the UTC calendar day, e.g. `2024-05-31`, so every visitor shares
+ * the same daily board regardless of time zone.
+ */
+export function getDailyKey(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Derives the day's board. Difficulty rotates through `DIFFICULTY_CONFIG`
+ * one day at a time and the seed is the day itself.
+ */
+export function getDailyChallenge(
+  cats: Cat[],
+  day = getDailyKey(),
+): DailyChallenge {
+  const dayNumber = Math.floor(Date.parse(day) / DAY_IN_MS);
+  const difficulty = DIFFICULTIES[dayNumber % DIFFICULTIES.length];
+  const puzzle = generatePuzzle(
+    cats,
+    DIFFICULTY_CONFIG[difficulty],
+    getDailySeed(day),
+  );
+
+  return {day, difficulty, puzzle};
+}
+
+export function getDailySeed(day: string) {
+  return `daily-${day}`;
+}
+
+/**
+ * Replays a submitted solution against the day's board and adds it to the
+ * player's record. Only the first win of a day counts, and the streak
+ * continues when the previous win was yesterday.
+ */
+export function recordDailyResult(
+  record: DailyRecord | undefined,
+  challenge: DailyChallenge,
+  moves: Move[],
+): DailyRecord {
+  const current = record ?? {lastResult: null, streak: 0};
+
+  if (current.lastResult?.day === challenge.day) {
+    return current;
+  }
+
+  if (!isSolved(replayMoves(challenge.puzzle.state, moves))) {
+    throw new Error('The submitted moves do not solve the daily puzzle');
+  }
+
+  const yesterday = getDailyKey(
+    new Date(Date.parse(challenge.day) - DAY_IN_MS),
+  );
+  const streak = current.lastResult?.day === yesterday ? current.streak + 1 : 1;
+
+  return {
+    lastResult: {
+      day: challenge.day,
+      moves: moves.length,
+      optimalMoves: challenge.puzzle.optimalMoves,
+    },
+    streak,
+  };
+}
+
+/**
+ * The streak shown to the player, which lapses once a full day is missed.
+ */
+export function getCurrentStreak(record: DailyRecord | undefined, day: string) {
+  if (!record?.lastResult) return 0;
+
+  const yesterday = getDailyKey(new Date(Date.parse(day) - DAY_IN_MS));
+  const {day: lastDay} = record.lastResult;
+
+  return lastDay === day || lastDay === yesterday ? record.streak : 0;
+}
@@ -0,0 +1,102 @@
+import {describe, expect, it} from 'vitest';
+import {
+  type Cat,
+  type GameState,
+  applyMove,
+  isDeadEnd,
+  isSolved,
+  legalMoves,
+  revertMove,
+} from './engine';
+
+const cats: Cat[] = ['a', 'b'].map((id) => ({
+  id,
+  name: id,
+  image: '',
+  primaryColor: '#000',
+}));
+
+// Builds a board from stacks of cat ids, top first
+function createBoard(stacks: string[][], stackSize = 2): GameState {
+  return {
+    cats,
+    stackSize,
+    stacks: stacks.map((stack, i) =>
+      stack.map((id, j) => ({
+        id: `${i}-${j}`,
+        cat: cats.find((cat) => cat.id === id)!,
+      })),
+    ),
+    stackKinds: stacks.map(() => 'open'),
+  };
+}
+
+describe('legalMoves', () => {
+  it('moves a top group onto an empty stack or the same cat', () => {
+    const state = createBoard([['a', 'b'], ['b'], []]);
+
+    expect(legalMoves(state)).toEqual([
+      {from: 0, to: 2, count: 1},
+      {from: 1, to: 2, count: 1},
+    ]);
+  });
+
+  it('never adds to a locked stack', () => {
+    const state = {
+      ...createBoard([['a'], ['a'], ['b', 'b']]),
+      stackKinds: ['open', 'locked', 'open'] as GameState['stackKinds'],
+    };
+
+    expect(legalMoves(state)).toEqual([{from: 1, to: 0, count: 1}]);
+  });
+});
+
+describe('applyMove', () => {
+  it('carries the whole top group', () => {
+    const state = createBoard([['a', 'a'], [], ['b', 'b']], 3);
+    const {state: next, move} = applyMove(state, 0, 1);
+
+    expect(move).toEqual({from: 0, to: 1, count: 2});
+    expect(next.stacks.map((stack) => stack.length)).toEqual([0, 2, 2]);
+  });
+
+  it('throws on an illegal move', () => {
+    const state = createBoard([['a'], ['b']]);
+
+    expect(() => applyMove(state, 0, 1)).toThrow('Illegal move');
+  });
+});
+
+describe('revertMove', () => {
+  it('undoes only the boxes the move carried', () => {
+    const state = createBoard([['a'], ['a'], ['b', 'b']]);
+    const {state: next, move} = applyMove(state, 0, 1);
+
+    expect(isSolved(next)).toBe(true);
+    expect(revertMove(next, move)).toEqual(state);
+  });
+});
+
+describe('isDeadEnd', () => {
+  it('is true for an unsolved board without legal moves', () => {
+    expect(
+      isDeadEnd(
+        createBoard([
+          ['a', 'b'],
+          ['b', 'a'],
+        ]),
+      ),
+    ).toBe(true);
+  });
+
+  it('is false for a solved board', () => {
+    expect(
+      isDeadEnd(
+        createBoard([
+          ['a', 'a'],
+          ['b', 'b'],
+        ]),
+      ),
+    ).toBe(false);
+  });
+});
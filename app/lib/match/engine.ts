@@ -0,0 +1,506 @@
+import type {Random} from './random';
+
+/**
+ * Framework-free rules for the Cat Sort puzzle.
+ *
+ * Stacks are stored top-down: index 0 of a stack is the box on top.
+ * Every function here is pure so it can run in the browser, in loaders
+ * and actions, or in a replay on the server.
+ */
+
+// Cat type definition
+export type Cat = {
+  id: string;
+  name: string;
+  image: string;
+  primaryColor: string;
+  secondaryColor?: string;
+  // Product the cat was loaded from, if any
+  product?: CatProduct;
+};
+
+export type CatProduct = {
+  handle: string;
+  variantId: string;
+  availableForSale: boolean;
+};
+
+export type CatBox = {
+  id: string;
+  cat: Cat;
+};
+
+export type Stack = CatBox[];
+
+export type Move = {
+  from: number;
+  to: number;
+  count: number;
+};
+
+/**
+ * `open` stacks follow the normal rules, `locked` stacks can be taken
+ * from but never added to, and `blocked` stacks take no part in the game.
+ */
+export type StackKind = 'open' | 'locked' | 'blocked';
+
+const STACK_KINDS: StackKind[] = ['open', 'locked', 'blocked'];
+
+export type GameState = {
+  cats: Cat[];
+  stacks: Stack[];
+  // Boxes a stack holds, which is also the number of boxes per cat
+  stackSize: number;
+  // Kind of each stack, by index
+  stackKinds: StackKind[];
+};
+
+// Boxes per stack unless a level says otherwise
+export const DEFAULT_STACK_SIZE = 4;
+
+// Difficulty levels
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+/**
+ * Everything a board is dealt and played by. Difficulty presets are
+ * levels too; others come from level packs, see `levels.ts`.
+ */
+export type LevelConfig = {
+  cats: number;
+  stackSize: number;
+  // All stacks on the board, including empty, locked and blocked ones
+  stacks: number;
+  emptyStacks: number;
+  // Dealt stacks that can only be taken from
+  lockedStacks: number;
+  // Stacks that stay empty and cannot be used
+  blockedStacks: number;
+  breakupProbability: number;
+  preMatchedPairs: number;
+  groupStacks: boolean;
+  // Hints the player may ask for on one board
+  hints: number;
+};
+
+export const DIFFICULTY_CONFIG: Record<Difficulty, LevelConfig> = {
+  easy: {
+    cats: 4,
+    stackSize: DEFAULT_STACK_SIZE,
+    stacks: 6, // 4 cats + 2 empty
+    emptyStacks: 2,
+    lockedStacks: 0,
+    blockedStacks: 0,
+    breakupProbability: 0.1, // Very low chance of breaking up same-cat groups
+    preMatchedPairs: 4,
+    groupStacks: true, // Sort most stacks by cat before breaking them up
+    hints: 3,
+  },
+  medium: {
+    cats: 6,
+    stackSize: DEFAULT_STACK_SIZE,
+    stacks: 8, // 6 cats + 2 empty
+    emptyStacks: 2,
+    lockedStacks: 0,
+    blockedStacks: 0,
+    breakupProbability: 0.3, // Lower probability to make it easier
+    preMatchedPairs: 3,
+    groupStacks: false,
+    hints: 2,
+  },
+  hard: {
+    cats: 8,
+    stackSize: DEFAULT_STACK_SIZE,
+    stacks: 10, // 8 cats + 2 empty
+    emptyStacks: 2,
+    lockedStacks: 0,
+    blockedStacks: 0,
+    breakupProbability: 0.5, // Medium chance of breaking up same-cat groups
+    preMatchedPairs: 2,
+    groupStacks: false,
+    hints: 1,
+  },
+  expert: {
+    cats: 8,
+    stackSize: 5,
+    stacks: 10, // 8 cats, 1 of them locked, + 2 empty
+    emptyStacks: 2,
+    lockedStacks: 1,
+    blockedStacks: 0,
+    breakupProbability: 0.6,
+    preMatchedPairs: 2,
+    groupStacks: false,
+    hints: 1,
+  },
+};
+
+export const DIFFICULTIES = Object.keys(DIFFICULTY_CONFIG) as Difficulty[];
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && value in DIFFICULTY_CONFIG;
+}
+
+/**
+ * Returns the group of same-cat boxes at the top of a stack.
+ */
+export function getMatchingTopBoxes(stack: Stack): Stack {
+  if (stack.length === 0) return [];
+
+  const topBox = stack[0];
+  const matchingGroup: Stack = [topBox];
+
+  // Check boxes from top to bottom for matches
+  for (let i = 1; i < stack.length; i++) {
+    if (stack[i].cat.id !== topBox.cat.id) break;
+    matchingGroup.push(stack[i]);
+  }
+
+  return matchingGroup;
+}
+
+/**
+ * Whether the top group of `from` may be placed on `to`. The whole group
+ * moves at once, so the destination needs room for all of it and must be
+ * empty or topped by the same cat.
+ */
+export function canMove(state: GameState, from: number, to: number) {
+  if (from === to) return false;
+
+  const sourceStack = state.stacks[from];
+  const destinationStack = state.stacks[to];
+  if (!sourceStack || !destinationStack || sourceStack.length === 0) {
+    return false;
+  }
+
+  // Locked stacks only give, blocked stacks neither give nor take
+  if (state.stackKinds[from] === 'blocked') return false;
+  if (state.stackKinds[to] !== 'open') return false;
+
+  const matchingBoxes = getMatchingTopBoxes(sourceStack);
+
+  if (destinationStack.length + matchingBoxes.length > state.stackSize) {
+    return false;
+  }
+
+  return (
+    destinationStack.length === 0 ||
+    destinationStack[0].cat.id === matchingBoxes[0].cat.id
+  );
+}
+
+/**
+ * Lists every legal move from the given state.
+ */
+export function legalMoves(state: GameState): Move[] {
+  const moves: Move[] = [];
+
+  state.stacks.forEach((stack, from) => {
+    const count = getMatchingTopBoxes(stack).length;
+    if (!count) return;
+
+    state.stacks.forEach((_, to) => {
+      if (canMove(state, from, to)) {
+        moves.push({from, to, count});
+      }
+    });
+  });
+
+  return moves;
+}
+
+/**
+ * Moves the top group of `from` onto `to` and returns the new state along
+ * with the recorded move. Throws when the move is not legal.
+ */
+export function applyMove(
+  state: GameState,
+  from: number,
+  to: number,
+): {state: GameState; move: Move} {
+  if (!canMove(state, from, to)) {
+    throw new Error(`Illegal move from stack ${from} to stack ${to}`);
+  }
+
+  const matchingBoxes = getMatchingTopBoxes(state.stacks[from]);
+  const stacks = [...state.stacks];
+
+  stacks[from] = stacks[from].slice(matchingBoxes.length);
+  stacks[to] = [...matchingBoxes, ...stacks[to]];
+
+  return {
+    state: {...state, stacks},
+    move: {from, to, count: matchingBoxes.length},
+  };
+}
+
+/**
+ * Reverts a move previously returned by `applyMove`. Only the boxes the
+ * move carried are sent back, even if the destination was already topped
+ * by the same cat.
+ */
+export function revertMove(state: GameState, move: Move): GameState {
+  const stacks = [...state.stacks];
+  const boxes = stacks[move.to].slice(0, move.count);
+
+  stacks[move.to] = stacks[move.to].slice(move.count);
+  stacks[move.from] = [...boxes, ...stacks[move.from]];
+
+  return {...state, stacks};
+}
+
+/**
+ * Plays a recorded list of moves from `state`. Throws on the first move
+ * that is illegal or carries a different number of boxes than recorded,
+ * which is how submitted results are verified on the server.
+ */
+export function replayMoves(state: GameState, moves: Move[]): GameState {
+  return moves.reduce((current, {from, to, count}) => {
+    const result = applyMove(current, from, to);
+    if (result.move.count !== count) {
+      throw new Error(`Move from stack ${from} to stack ${to} does not match`);
+    }
+    return result.state;
+  }, state);
+}
+
+/**
+ * Reads a move list posted by a client, throwing when it is malformed.
+ */
+export function parseMoves(value: unknown): Move[] {
+  const moves = typeof value === 'string' ? JSON.parse(value) : value;
+
+  if (!Array.isArray(moves) || !moves.every(isMove)) {
+    throw new Error('Invalid Cat Sort move list');
+  }
+
+  return moves.map(({from, to, count}) => ({from, to, count}));
+}
+
+function isMove(value: unknown): value is Move {
+  const move = value as Partial<Move> | null;
+  return (
+    Number.isInteger(move?.from) &&
+    Number.isInteger(move?.to) &&
+    Number.isInteger(move?.count)
+  );
+}
+
+/**
+ * A puzzle is solved when each cat in play fills exactly one stack.
+ */
+export function isSolved(state: GameState) {
+  const catStacks: Record<string, number> = {};
+  state.cats.forEach((cat) => {
+    catStacks[cat.id] = 0;
+  });
+
+  for (const stack of state.stacks) {
+    if (stack.length === 0) continue;
+
+    const catId = stack[0].cat.id;
+    if (stack.length !== state.stackSize) return false;
+    if (!stack.every((box) => box.cat.id === catId)) return false;
+    if (catStacks[catId] === undefined) return false;
+
+    catStacks[catId]++;
+  }
+
+  return Object.values(catStacks).every((count) => count === 1);
+}
+
+/**
+ * An unsolved board with no legal move left.
+ */
+export function isDeadEnd(state: GameState) {
+  return !isSolved(state) && legalMoves(state).length === 0;
+}
+
+// Helper function to shuffle an array (Fisher-Yates algorithm)
+export function shuffleArray<T>(array: T[], random: Random = Math.random): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Deals a new board for the given cats. Same-cat runs are seeded and
+ * broken up according to the difficulty so easier boards start with more
+ * groups already formed.
+ */
+export function createGame(
+  cats: Cat[],
+  config: LevelConfig,
+  random: Random,
+): GameState {
+  const {stackSize} = config;
+  const filledStacks =
+    config.stacks - config.emptyStacks - config.blockedStacks;
+
+  // Create boxes (one stack's worth of each cat)
+  const allBoxes: CatBox[] = [];
+  cats.forEach((cat) => {
+    for (let i = 0; i < stackSize; i++) {
+      allBoxes.push({id: `${cat.id}-${i}`, cat});
+    }
+  });
+
+  if (allBoxes.length > filledStacks * stackSize) {
+    throw new Error(
+      `${cats.length} cats do not fit on ${filledStacks} filled stacks`,
+    );
+  }
+
+  const remainingBoxes = shuffleArray(allBoxes, random);
+  const organizedBoxes: CatBox[] = [];
+
+  // Pull a few pairs/triplets of the same cat together to ease the start
+  for (
+    let i = 0;
+    i < config.preMatchedPairs && remainingBoxes.length > 0;
+    i++
+  ) {
+    const boxIndex = Math.floor(random() * remainingBoxes.length);
+    const catId = remainingBoxes[boxIndex].cat.id;
+    const selectedBoxes = remainingBoxes
+      .filter((box) => box.cat.id === catId)
+      .slice(0, 3);
+
+    organizedBoxes.push(...selectedBoxes);
+    selectedBoxes.forEach((box) => {
+      remainingBoxes.splice(remainingBoxes.indexOf(box), 1);
+    });
+  }
+
+  const mixedBoxes = [...organizedBoxes, ...remainingBoxes];
+
+  // Deal boxes evenly over the filled stacks, then leave the rest empty
+  const boxesPerStack = Math.ceil(allBoxes.length / filledStacks);
+  const stacks: Stack[] = [];
+  for (let i = 0; i < filledStacks; i++) {
+    stacks.push(mixedBoxes.slice(i * boxesPerStack, (i + 1) * boxesPerStack));
+  }
+  for (let i = 0; i < config.emptyStacks; i++) {
+    stacks.push([]);
+  }
+
+  const pickOtherStack = (i: number) =>
+    (i + 1 + Math.floor(random() * (filledStacks - 1))) % filledStacks;
+
+  if (config.groupStacks) {
+    // Group same-cat boxes within most stacks
+    for (let i = 0; i < filledStacks; i++) {
+      if (random() < 0.7) {
+        stacks[i].sort((a, b) => a.cat.id.localeCompare(b.cat.id));
+      }
+    }
+  } else {
+    // Shuffle each stack and never start with a finished stack
+    for (let i = 0; i < filledStacks; i++) {
+      stacks[i] = shuffleArray(stacks[i], random);
+
+      const stack = stacks[i];
+      if (
+        stack.length === stackSize &&
+        stack.every((box) => box.cat.id === stack[0].cat.id)
+      ) {
+        const other = stacks[pickOtherStack(i)];
+        const otherIndex = Math.floor(random() * other.length);
+        [stack[0], other[otherIndex]] = [other[otherIndex], stack[0]];
+      }
+    }
+  }
+
+  // Break up consecutive same-cat boxes based on difficulty
+  for (let i = 0; i < filledStacks; i++) {
+    for (let j = 1; j < stacks[i].length; j++) {
+      if (
+        stacks[i][j].cat.id === stacks[i][j - 1].cat.id &&
+        random() < config.breakupProbability
+      ) {
+        const other = stacks[pickOtherStack(i)];
+        if (other.length > 0) {
+          const otherIndex = Math.floor(random() * other.length);
+          [stacks[i][j], other[otherIndex]] = [other[otherIndex], stacks[i][j]];
+        }
+      }
+    }
+  }
+
+  // The last dealt stacks are locked, blocked ones come after the empty
+  const firstLockedStack = filledStacks - config.lockedStacks;
+  const stackKinds = stacks.map(
+    (_, i): StackKind =>
+      i >= firstLockedStack && i < filledStacks ? 'locked' : 'open',
+  );
+  for (let i = 0; i < config.blockedStacks; i++) {
+    stacks.push([]);
+    stackKinds.push('blocked');
+  }
+
+  return {cats, stacks, stackSize, stackKinds};
+}
+
+type SerializedGameState = {
+  cats: Cat[];
+  stacks: [boxId: string, catId: string][][];
+  stackSize: number;
+  stackKinds: StackKind[];
+};
+
+/**
+ * Encodes a state as a JSON string. Boxes only keep a reference to their
+ * cat so the payload stays small enough for URLs, sessions and replays.
+ */
+export function serializeState(state: GameState): string {
+  const serialized: SerializedGameState = {
+    cats: state.cats,
+    stacks: state.stacks.map((stack) =>
+      stack.map((box) => [box.id, box.cat.id]),
+    ),
+    stackSize: state.stackSize,
+    stackKinds: state.stackKinds,
+  };
+
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Decodes a string produced by `serializeState`. Throws when the payload
+ * is malformed or references a cat that is not part of the game.
+ */
+export function deserializeState(value: string): GameState {
+  const parsed = JSON.parse(value) as Partial<SerializedGameState>;
+
+  if (
+    !Array.isArray(parsed?.cats) ||
+    !Array.isArray(parsed?.stacks) ||
+    !Array.isArray(parsed?.stackKinds) ||
+    parsed.stackKinds.length !== parsed.stacks.length ||
+    !parsed.stackKinds.every((kind) => STACK_KINDS.includes(kind)) ||
+    !Number.isInteger(parsed?.stackSize)
+  ) {
+    throw new Error('Invalid Cat Sort state');
+  }
+
+  const {stackSize, stackKinds} = parsed as SerializedGameState;
+
+  const catsById = new Map(parsed.cats.map((cat) => [cat.id, cat]));
+
+  const stacks = parsed.stacks.map((stack) => {
+    if (!Array.isArray(stack) || stack.length > stackSize) {
+      throw new Error('Invalid Cat Sort stack');
+    }
+
+    return stack.map(([id, catId]) => {
+      const cat = catsById.get(catId);
+      if (!cat) {
+        throw new Error(`Unknown cat ${catId} in Cat Sort state`);
+      }
+      return {id, cat};
+    });
+  });
+
+  return {cats: parsed.cats, stacks, stackSize, stackKinds};
+}
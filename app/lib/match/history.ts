@@ -0,0 +1,53 @@
+import {type GameState, type Move, replayMoves} from './engine';
+
+/**
+ * Every move made on a board. Moves before `position` are on the board;
+ * the ones after it were undone and form the redo stack.
+ */
+export type MoveHistory = {
+  moves: Move[];
+  position: number;
+};
+
+export const EMPTY_HISTORY: MoveHistory = {moves: [], position: 0};
+
+// Moves currently applied to the board
+export function getAppliedMoves(history: MoveHistory) {
+  return history.moves.slice(0, history.position);
+}
+
+/**
+ * Records a new move. Making a move after an undo discards the redo stack,
+ * the same way text editors do.
+ */
+export function pushMove(history: MoveHistory, move: Move): MoveHistory {
+  const moves = [...getAppliedMoves(history), move];
+  return {moves, position: moves.length};
+}
+
+export function canUndo(history: MoveHistory) {
+  return history.position > 0;
+}
+
+export function canRedo(history: MoveHistory) {
+  return history.position < history.moves.length;
+}
+
+/**
+ * Moves the cursor to any point of the timeline, from the dealt board at
+ * `0` to the latest move. The redo stack is kept so the player can jump
+ * forward again.
+ */
+export function jumpTo(history: MoveHistory, position: number): MoveHistory {
+  return {
+    ...history,
+    position: Math.min(Math.max(position, 0), history.moves.length),
+  };
+}
+
+/**
+ * Rebuilds the board at the history's cursor from the dealt board.
+ */
+export function getStateAt(initial: GameState, history: MoveHistory) {
+  return replayMoves(initial, getAppliedMoves(history));
+}
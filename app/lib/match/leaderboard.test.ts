@@ -0,0 +1,57 @@
+import {describe, expect, it} from 'vitest';
+import {createMemoryKV} from '../kv';
+import {
+  type LeaderboardEntry,
+  createKVStorage,
+  getLeaderboard,
+  submitEntry,
+} from './leaderboard';
+
+function createEntry(entry: Partial<LeaderboardEntry>): LeaderboardEntry {
+  return {
+    name: 'Player',
+    player: 'player-1',
+    seed: 'seed-1',
+    difficulty: 'easy',
+    day: null,
+    moves: 12,
+    optimalMoves: 10,
+    submittedAt: '2026-01-01T00:00:00.000Z',
+    ...entry,
+  };
+}
+
+describe('submitEntry', () => {
+  it('keeps only the best entry of a player per seed', async () => {
+    const storage = createKVStorage(createMemoryKV());
+
+    await submitEntry(storage, createEntry({moves: 12}));
+    await submitEntry(storage, createEntry({moves: 10}));
+    const ranks = await submitEntry(storage, createEntry({moves: 11}));
+
+    const entries = await getLeaderboard(storage, {
+      type: 'difficulty',
+      difficulty: 'easy',
+    });
+    expect(entries.map(({moves}) => moves)).toEqual([10]);
+    expect(ranks).toEqual([
+      {board: {type: 'difficulty', difficulty: 'easy'}, rank: 1},
+    ]);
+  });
+
+  it('ranks ties by who got there first', async () => {
+    const storage = createKVStorage(createMemoryKV());
+
+    await submitEntry(
+      storage,
+      createEntry({player: 'late', submittedAt: '2026-01-02T00:00:00.000Z'}),
+    );
+    await submitEntry(storage, createEntry({player: 'early'}));
+
+    const entries = await getLeaderboard(storage, {
+      type: 'difficulty',
+      difficulty: 'easy',
+    });
+    expect(entries.map(({player}) => player)).toEqual(['early', 'late']);
+  });
+});
@@ -0,0 +1,133 @@
+import {type Difficulty} from './engine';
+import {type KeyValueStore, getJSON, getKV, putJSON} from '../kv';
+
+// Entries kept per board, worst dropped first
+const MAX_ENTRIES = 100;
+
+// Longest player name shown on the leaderboard
+const MAX_NAME_LENGTH = 24;
+
+export type LeaderboardEntry = {
+  name: string;
+  // Customer id, or a guest's id from their session; never shown
+  player: string;
+  seed: string;
+  difficulty: Difficulty;
+  // Daily challenge day, or `null` for free play boards
+  day: string | null;
+  moves: number;
+  optimalMoves: number;
+  submittedAt: string;
+};
+
+// A ranking: every board of one difficulty, or the board of one day
+export type LeaderboardBoard =
+  | {type: 'difficulty'; difficulty: Difficulty}
+  | {type: 'daily'; day: string};
+
+/**
+ * Where leaderboards are kept. Adapters only store ranked lists under a
+ * key; ranking and trimming happen in `submitEntry`.
+ */
+export type LeaderboardStorage = {
+  get(key: string): Promise<LeaderboardEntry[]>;
+  set(key: string, entries: LeaderboardEntry[]): Promise<void>;
+};
+
+export function getBoardKey(board: LeaderboardBoard) {
+  return board.type === 'daily'
+    ? `daily:${board.day}`
+    : `difficulty:${board.difficulty}`;
+}
+
+/**
+ * Orders entries by moves over the optimal solution, so boards of the same
+ * difficulty compare fairly, then by who got there first. Solve times are
+ * left out, since only the player's browser could measure them.
+ */
+export function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry) {
+  return (
+    a.moves - a.optimalMoves - (b.moves - b.optimalMoves) ||
+    a.submittedAt.localeCompare(b.submittedAt)
+  );
+}
+
+export function sanitizeName(value: unknown) {
+  const name = typeof value === 'string' ? value.trim() : '';
+  return name.slice(0, MAX_NAME_LENGTH) || 'Anonymous';
+}
+
+// Formats a solve time as `m:ss`
+export function formatDuration(duration: number) {
+  const seconds = Math.floor(duration / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export async function getLeaderboard(
+  storage: LeaderboardStorage,
+  board: LeaderboardBoard,
+) {
+  return storage.get(getBoardKey(board));
+}
+
+/**
+ * Ranks a verified win on its difficulty board and, for daily challenges,
+ * on the board of the day. A player keeps one entry per seed, their best,
+ * so submitting the same solution again gains nothing. Returns the rank of
+ * that entry on each board, or `null` where it did not make the cut.
+ */
+export async function submitEntry(
+  storage: LeaderboardStorage,
+  entry: LeaderboardEntry,
+) {
+  const boards: LeaderboardBoard[] = [
+    {type: 'difficulty', difficulty: entry.difficulty},
+  ];
+  if (entry.day) boards.push({type: 'daily', day: entry.day});
+
+  // One board at a time, as adapters need not handle concurrent writes
+  const ranks: {board: LeaderboardBoard; rank: number | null}[] = [];
+  for (const board of boards) {
+    const key = getBoardKey(board);
+    const current = await storage.get(key);
+    const isSamePlay = (other: LeaderboardEntry) =>
+      other.seed === entry.seed && other.player === entry.player;
+    const previous = current.find(isSamePlay);
+    const best =
+      previous && compareEntries(previous, entry) <= 0 ? previous : entry;
+    const entries = [...current.filter((other) => !isSamePlay(other)), best]
+      .sort(compareEntries)
+      .slice(0, MAX_ENTRIES);
+
+    await storage.set(key, entries);
+
+    const index = entries.indexOf(best);
+    ranks.push({board, rank: index === -1 ? null : index + 1});
+  }
+
+  return ranks;
+}
+
+/**
+ * Keeps each leaderboard as one JSON value in a key-value store.
+ */
+export function createKVStorage(kv: KeyValueStore): LeaderboardStorage {
+  const getKey = (key: string) => `match:leaderboard:${key}`;
+
+  return {
+    async get(key) {
+      return (await getJSON<LeaderboardEntry[]>(kv, getKey(key))) ?? [];
+    },
+    async set(key, entries) {
+      await putJSON(kv, getKey(key), entries);
+    },
+  };
+}
+
+/**
+ * The leaderboard storage for this server, in the same key-value store as
+ * other customer data.
+ */
+export function getLeaderboardStorage(env: Env) {
+  return createKVStorage(getKV(env));
+}
@@ -0,0 +1,145 @@
+import {describe, expect, it} from 'vitest';
+import {getLevel, getLevelPack, parseLevel, parseLevelPack} from './levels';
+
+describe('parseLevel', () => {
+  it('fills in the defaults', () => {
+    expect(parseLevel({id: 'first', name: 'First', cats: 3})).toEqual({
+      id: 'first',
+      name: 'First',
+      seed: 'level-first',
+      config: {
+        cats: 3,
+        stackSize: 4,
+        stacks: 5,
+        emptyStacks: 2,
+        lockedStacks: 0,
+        blockedStacks: 0,
+        breakupProbability: 0.3,
+        preMatchedPairs: 2,
+        groupStacks: false,
+        hints: 2,
+      },
+    });
+  });
+
+  it('keeps the fields a level sets', () => {
+    const level = parseLevel({
+      id: 'locked-in',
+      name: 'Locked in',
+      cats: 5,
+      stackSize: 6,
+      emptyStacks: 3,
+      lockedStacks: 5,
+      blockedStacks: 4,
+      breakupProbability: 1,
+      preMatchedPairs: 0,
+      groupStacks: true,
+      hints: 0,
+      seed: 'custom',
+    });
+
+    expect(level.seed).toBe('custom');
+    expect(level.config).toEqual({
+      cats: 5,
+      stackSize: 6,
+      stacks: 12,
+      emptyStacks: 3,
+      lockedStacks: 5,
+      blockedStacks: 4,
+      breakupProbability: 1,
+      preMatchedPairs: 0,
+      groupStacks: true,
+      hints: 0,
+    });
+  });
+
+  it('names a level after its id when it has no name', () => {
+    expect(parseLevel({id: 'nameless', cats: 2}).name).toBe('nameless');
+  });
+
+  it('rejects levels without a valid id', () => {
+    for (const value of [
+      null,
+      'first',
+      {cats: 3},
+      {id: 7, cats: 3},
+      {id: '', cats: 3},
+      {id: 'First Level', cats: 3},
+    ]) {
+      expect(() => parseLevel(value)).toThrow(
+        'Level id must be lowercase letters, digits and dashes',
+      );
+    }
+  });
+
+  it('rejects numbers out of range or of the wrong kind', () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{}, 'cats must be a whole number from 1 to 12'],
+      [{cats: 0}, 'cats must be a whole number from 1 to 12'],
+      [{cats: 2.5}, 'cats must be a whole number from 1 to 12'],
+      [{cats: '3'}, 'cats must be a whole number from 1 to 12'],
+      [{cats: 3, stackSize: 1}, 'stackSize must be a whole number from 2 to 6'],
+      [{cats: 3, stackSize: 7}, 'stackSize must be a whole number from 2 to 6'],
+      [{cats: 3, emptyStacks: 0}, 'emptyStacks must be a whole number'],
+      [{cats: 3, lockedStacks: 4}, 'lockedStacks must be a whole number'],
+      [{cats: 3, blockedStacks: -1}, 'blockedStacks must be a whole number'],
+      [{cats: 3, preMatchedPairs: 13}, 'preMatchedPairs must be a whole'],
+      [{cats: 3, hints: 11}, 'hints must be a whole number from 0 to 10'],
+      [{cats: 3, hints: NaN}, 'hints must be a whole number from 0 to 10'],
+    ];
+
+    for (const [fields, message] of cases) {
+      expect(() => parseLevel({id: 'level', ...fields})).toThrow(
+        `Level level: ${message}`,
+      );
+    }
+  });
+
+  it('rejects boards with more than 12 stacks', () => {
+    expect(() =>
+      parseLevel({id: 'crowded', cats: 10, emptyStacks: 2, blockedStacks: 1}),
+    ).toThrow('Level crowded: more than 12 stacks');
+  });
+
+  it('rejects other fields of the wrong kind', () => {
+    for (const breakupProbability of [-0.1, 1.1, NaN, '0.5']) {
+      expect(() =>
+        parseLevel({id: 'level', cats: 3, breakupProbability}),
+      ).toThrow('Level level: breakupProbability must be from 0 to 1');
+    }
+    expect(() =>
+      parseLevel({id: 'level', cats: 3, groupStacks: 'yes'}),
+    ).toThrow('Level level: groupStacks must be true or false');
+    expect(() => parseLevel({id: 'level', cats: 3, name: {}})).toThrow(
+      'Level level: name and seed must be text',
+    );
+    expect(() => parseLevel({id: 'level', cats: 3, seed: 42})).toThrow(
+      'Level level: name and seed must be text',
+    );
+  });
+});
+
+describe('parseLevelPack', () => {
+  it('rejects packs without a name or levels', () => {
+    for (const value of [null, {levels: []}, {name: 'Pack', levels: {}}]) {
+      expect(() => parseLevelPack(value)).toThrow('Invalid level pack');
+    }
+  });
+
+  it('rejects duplicate level ids', () => {
+    const level = {id: 'twice', cats: 2};
+
+    expect(() =>
+      parseLevelPack({name: 'Pack', levels: [level, level]}),
+    ).toThrow('Level pack Pack has duplicate level ids');
+  });
+
+  it('reads the bundled pack', () => {
+    const {levels} = getLevelPack();
+
+    expect(levels.length).toBeGreaterThan(0);
+    expect(getLevel(levels[0].id)).toBe(levels[0]);
+    expect(getLevel('no-such-level')).toBeNull();
+    expect(getLevel(null)).toBeNull();
+  });
+});
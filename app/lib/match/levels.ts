@@ -0,0 +1,177 @@
+import {DEFAULT_STACK_SIZE, type LevelConfig} from './engine';
+import bundledLevelPack from './levels.json';
+
+// Limits that keep a level on screen and within reach of the solver
+const MAX_STACK_SIZE = 6;
+const MAX_STACKS = 12;
+
+/**
+ * A level as written in a level pack. Only `id`, `name` and `cats` are
+ * required, everything else falls back to the defaults below:
+ *
+ * ```json
+ * {
+ *   "id": "locked-in",
+ *   "name": "Locked in",
+ *   "cats": 5,
+ *   "stackSize": 4,
+ *   "emptyStacks": 2,
+ *   "lockedStacks": 1,
+ *   "blockedStacks": 0
+ * }
+ * ```
+ *
+ * Every cat fills one stack of `stackSize` boxes. `lockedStacks` of the
+ * dealt stacks can only be taken from, and `blockedStacks` extra stacks
+ * cannot be used at all. The board is dealt from `seed`, which defaults
+ * to the level id so everyone plays the same board.
+ */
+export type LevelDefinition = {
+  id: string;
+  name: string;
+  cats: number;
+  stackSize?: number;
+  emptyStacks?: number;
+  lockedStacks?: number;
+  blockedStacks?: number;
+  breakupProbability?: number;
+  preMatchedPairs?: number;
+  groupStacks?: boolean;
+  hints?: number;
+  seed?: string;
+};
+
+export type Level = {
+  id: string;
+  name: string;
+  seed: string;
+  config: LevelConfig;
+};
+
+export type LevelPack = {
+  name: string;
+  levels: Level[];
+};
+
+const LEVEL_DEFAULTS = {
+  stackSize: DEFAULT_STACK_SIZE,
+  emptyStacks: 2,
+  lockedStacks: 0,
+  blockedStacks: 0,
+  breakupProbability: 0.3,
+  preMatchedPairs: 2,
+  groupStacks: false,
+  hints: 2,
+};
+
+/**
+ * Validates a level definition and fills in the defaults. Throws with the
+ * offending field when the definition cannot be played.
+ */
+export function parseLevel(value: unknown): Level {
+  const definition = value as Partial<LevelDefinition> | null;
+
+  if (
+    typeof definition?.id !== 'string' ||
+    !/^[a-z0-9-]+$/.test(definition.id)
+  ) {
+    throw new Error('Level id must be lowercase letters, digits and dashes');
+  }
+
+  const {id, name = id, seed = `level-${id}`, ...fields} = definition;
+  const level: Record<string, unknown> = {...LEVEL_DEFAULTS, ...fields};
+
+  const getInteger = (field: string, min: number, max: number) => {
+    const number = level[field];
+    if (
+      typeof number !== 'number' ||
+      !Number.isInteger(number) ||
+      number < min ||
+      number > max
+    ) {
+      throw new Error(
+        `Level ${id}: ${field} must be a whole number from ${min} to ${max}`,
+      );
+    }
+    return number;
+  };
+
+  const cats = getInteger('cats', 1, MAX_STACKS);
+  const stackSize = getInteger('stackSize', 2, MAX_STACK_SIZE);
+  const emptyStacks = getInteger('emptyStacks', 1, MAX_STACKS);
+  const lockedStacks = getInteger('lockedStacks', 0, cats);
+  const blockedStacks = getInteger('blockedStacks', 0, MAX_STACKS);
+  const preMatchedPairs = getInteger('preMatchedPairs', 0, cats * stackSize);
+  const hints = getInteger('hints', 0, 10);
+  const {breakupProbability, groupStacks} = level;
+
+  const stacks = cats + emptyStacks + blockedStacks;
+  if (stacks > MAX_STACKS) {
+    throw new Error(`Level ${id}: more than ${MAX_STACKS} stacks`);
+  }
+  if (typeof name !== 'string' || typeof seed !== 'string') {
+    throw new Error(`Level ${id}: name and seed must be text`);
+  }
+  if (
+    typeof breakupProbability !== 'number' ||
+    Number.isNaN(breakupProbability) ||
+    breakupProbability < 0 ||
+    breakupProbability > 1
+  ) {
+    throw new Error(`Level ${id}: breakupProbability must be from 0 to 1`);
+  }
+  if (typeof groupStacks !== 'boolean') {
+    throw new Error(`Level ${id}: groupStacks must be true or false`);
+  }
+
+  return {
+    id,
+    name,
+    seed,
+    config: {
+      cats,
+      stackSize,
+      stacks,
+      emptyStacks,
+      lockedStacks,
+      blockedStacks,
+      breakupProbability,
+      preMatchedPairs,
+      groupStacks,
+      hints,
+    },
+  };
+}
+
+/**
+ * Reads a level pack, `{"name": …, "levels": [LevelDefinition, …]}`.
+ */
+export function parseLevelPack(value: unknown): LevelPack {
+  const pack = value as {name?: unknown; levels?: unknown} | null;
+
+  if (typeof pack?.name !== 'string' || !Array.isArray(pack.levels)) {
+    throw new Error('Invalid level pack');
+  }
+
+  const levels = pack.levels.map(parseLevel);
+  const ids = new Set(levels.map((level) => level.id));
+  if (ids.size !== levels.length) {
+    throw new Error(`Level pack ${pack.name} has duplicate level ids`);
+  }
+
+  return {name: pack.name, levels};
+}
+
+let levelPack: LevelPack | undefined;
+
+/**
+ * The level pack shipped with the app, see `levels.json`.
+ */
+export function getLevelPack() {
+  levelPack ??= parseLevelPack(bundledLevelPack);
+  return levelPack;
+}
+
+export function getLevel(id: string | null) {
+  return getLevelPack().levels.find((level) => level.id === id) ?? null;
+}
@@ -0,0 +1,63 @@
+import {type Difficulty, type GameState, isDeadEnd} from './engine';
+import {getPar} from './reward';
+
+/**
+ * How a board is played: `classic` is the untimed sandbox, `timeAttack`
+ * has to be solved before a countdown runs out and `par` within a limited
+ * number of moves.
+ */
+export type GameMode = 'classic' | 'timeAttack' | 'par';
+
+export const GAME_MODES: GameMode[] = ['classic', 'timeAttack', 'par'];
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  classic: 'Classic',
+  timeAttack: 'Time attack',
+  par: 'Par',
+};
+
+// Seconds on the clock in time attack
+export const TIME_LIMITS: Record<Difficulty, number> = {
+  easy: 90,
+  medium: 150,
+  hard: 240,
+  expert: 360,
+};
+
+export type LossReason = 'deadEnd' | 'timeUp' | 'outOfMoves';
+
+export function isGameMode(value: unknown): value is GameMode {
+  return GAME_MODES.includes(value as GameMode);
+}
+
+/**
+ * Moves allowed in par mode. It matches the par that earns a reward, so
+ * par mode doubles as practice for it.
+ */
+export function getMoveLimit(optimalMoves: number) {
+  return getPar(optimalMoves);
+}
+
+// Par mode counts every move for good, so nothing can be taken back
+export function canTakeBack(mode: GameMode) {
+  return mode !== 'par';
+}
+
+/**
+ * Works out whether an unsolved board is lost by the rules of the mode.
+ * Running out of time is tracked by the clock and not checked here.
+ */
+export function getLossReason(
+  state: GameState,
+  {
+    mode,
+    moves,
+    optimalMoves,
+  }: {mode: GameMode; moves: number; optimalMoves: number},
+): LossReason | null {
+  if (isDeadEnd(state)) return 'deadEnd';
+  if (mode === 'par' && moves >= getMoveLimit(optimalMoves)) {
+    return 'outOfMoves';
+  }
+  return null;
+}
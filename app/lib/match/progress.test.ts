@@ -0,0 +1,232 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {createMemoryKV} from '../kv';
+import {PLACEHOLDER_CATS} from './cats';
+import {DIFFICULTY_CONFIG} from './engine';
+import {generatePuzzle} from './puzzle';
+import {
+  type SavedGame,
+  RemoteGameSaver,
+  hasCustomerTakenBack,
+  loadCustomerGame,
+  parseSavedGame,
+  restoreSavedGame,
+  saveCustomerGame,
+} from './progress';
+
+const {solution} = generatePuzzle(
+  PLACEHOLDER_CATS,
+  DIFFICULTY_CONFIG.easy,
+  'progress',
+);
+
+function createGame(game: Partial<SavedGame> = {}): SavedGame {
+  return {
+    seed: 'progress',
+    difficulty: 'easy',
+    moves: solution.slice(0, 2),
+    hintsUsed: 0,
+    savedAt: '2026-03-01T10:00:00.000Z',
+    ...game,
+  };
+}
+
+describe('parseSavedGame', () => {
+  it('reads a game from JSON', () => {
+    const game = createGame();
+    expect(parseSavedGame(JSON.stringify(game))).toEqual(game);
+  });
+
+  it('rejects malformed and oversized games', () => {
+    expect(parseSavedGame('{')).toBeNull();
+    expect(parseSavedGame(null)).toBeNull();
+    expect(
+      parseSavedGame({...createGame(), difficulty: 'impossible'}),
+    ).toBeNull();
+    expect(parseSavedGame({...createGame(), savedAt: 'yesterday'})).toBeNull();
+    expect(
+      parseSavedGame(
+        createGame({moves: Array(501).fill({from: 0, to: 1, count: 1})}),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('restoreSavedGame', () => {
+  it('only restores moves that fit the board', () => {
+    const game = createGame();
+
+    expect(restoreSavedGame(game, PLACEHOLDER_CATS)).toEqual(game);
+    expect(
+      restoreSavedGame(
+        createGame({moves: [{from: 0, to: 0, count: 1}]}),
+        PLACEHOLDER_CATS,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('saveCustomerGame', () => {
+  it('keeps a game per customer until it is cleared', async () => {
+    const kv = createMemoryKV();
+    const game = createGame();
+
+    await saveCustomerGame(kv, 'customer-1', game);
+    expect(await loadCustomerGame(kv, 'customer-1', PLACEHOLDER_CATS)).toEqual(
+      game,
+    );
+    expect(
+      await loadCustomerGame(kv, 'customer-2', PLACEHOLDER_CATS),
+    ).toBeNull();
+
+    await saveCustomerGame(kv, 'customer-1', null);
+    expect(
+      await loadCustomerGame(kv, 'customer-1', PLACEHOLDER_CATS),
+    ).toBeNull();
+  });
+
+  it('drops a save older than the stored one', async () => {
+    const kv = createMemoryKV();
+    const newer = createGame({savedAt: '2026-03-01T10:00:05.000Z'});
+
+    expect(await saveCustomerGame(kv, 'customer-1', newer)).toBe(true);
+    expect(
+      await saveCustomerGame(kv, 'customer-1', createGame({moves: []})),
+    ).toBe(false);
+    expect(await loadCustomerGame(kv, 'customer-1', PLACEHOLDER_CATS)).toEqual(
+      newer,
+    );
+  });
+});
+
+describe('hasCustomerTakenBack', () => {
+  const win = {seed: 'progress', difficulty: 'easy' as const, moves: solution};
+
+  it('is false while saves only add moves', async () => {
+    const kv = createMemoryKV();
+
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({moves: solution.slice(0, 1)}),
+    );
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({
+        moves: solution.slice(0, 2),
+        savedAt: '2026-03-01T10:00:01.000Z',
+      }),
+    );
+
+    expect(await hasCustomerTakenBack(kv, 'customer-1', win)).toBe(false);
+  });
+
+  it('remembers a rewind even once the board moves on', async () => {
+    const kv = createMemoryKV();
+
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({moves: solution.slice(0, 2)}),
+    );
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({
+        moves: solution.slice(0, 1),
+        savedAt: '2026-03-01T10:00:01.000Z',
+      }),
+    );
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({
+        moves: solution.slice(0, 3),
+        savedAt: '2026-03-01T10:00:02.000Z',
+      }),
+    );
+
+    expect(await hasCustomerTakenBack(kv, 'customer-1', win)).toBe(true);
+  });
+
+  it('spots a win that does not continue the last save', async () => {
+    const kv = createMemoryKV();
+
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({moves: solution.slice(0, 2)}),
+    );
+
+    expect(
+      await hasCustomerTakenBack(kv, 'customer-1', {
+        ...win,
+        moves: solution.slice(1),
+      }),
+    ).toBe(true);
+  });
+
+  it('starts over on another board', async () => {
+    const kv = createMemoryKV();
+
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({moves: solution.slice(0, 2)}),
+    );
+    await saveCustomerGame(
+      kv,
+      'customer-1',
+      createGame({
+        seed: 'other',
+        moves: [],
+        savedAt: '2026-03-01T10:00:01.000Z',
+      }),
+    );
+
+    expect(await hasCustomerTakenBack(kv, 'customer-1', win)).toBe(false);
+    expect(
+      await hasCustomerTakenBack(kv, 'customer-1', {...win, seed: 'other'}),
+    ).toBe(false);
+  });
+});
+
+describe('RemoteGameSaver', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends only the latest game once moves stop', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn().mockResolvedValue(new Response());
+    vi.stubGlobal('fetch', fetch);
+    const saver = new RemoteGameSaver();
+
+    saver.save(createGame({moves: solution.slice(0, 1)}));
+    await vi.advanceTimersByTimeAsync(500);
+    saver.save(createGame({moves: solution.slice(0, 2)}));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+    expect(parseSavedGame(init.body)?.moves).toEqual(solution.slice(0, 2));
+  });
+
+  it('sends a pending game at once when flushed', async () => {
+    const fetch = vi.fn().mockResolvedValue(new Response());
+    vi.stubGlobal('fetch', fetch);
+    const saver = new RemoteGameSaver();
+
+    saver.save(null);
+    saver.flush();
+    await Promise.resolve();
+
+    expect(fetch).toHaveBeenCalledWith(
+      '/api/match-progress',
+      expect.objectContaining({method: 'DELETE'}),
+    );
+  });
+});
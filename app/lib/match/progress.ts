@@ -0,0 +1,237 @@
+import {
+  type Cat,
+  type Difficulty,
+  type Move,
+  DIFFICULTY_CONFIG,
+  isDifficulty,
+  parseMoves,
+  replayMoves,
+} from './engine';
+import {generatePuzzle} from './puzzle';
+import {isValidSeed} from './random';
+import {type KeyValueStore, getJSON, putJSON} from '../kv';
+
+// localStorage key holding a guest's unfinished game
+const SAVED_GAME_STORAGE_KEY = 'cat-sort:saved-game';
+
+// Longest move list kept; a board this far from solved is abandoned
+const MAX_SAVED_MOVES = 500;
+
+// Seconds a logged-in customer's unfinished game is kept
+const SAVED_GAME_TTL = 30 * 24 * 60 * 60;
+
+// Milliseconds without a move before a logged-in customer's game is saved
+const REMOTE_SAVE_DELAY = 1000;
+
+/**
+ * An unfinished game. The board is not stored: it is dealt again from the
+ * seed and difficulty, and the moves on it are replayed on top. Undone
+ * moves are left out, so the redo stack does not survive a reload.
+ */
+export type SavedGame = {
+  seed: string;
+  difficulty: Difficulty;
+  moves: Move[];
+  hintsUsed: number;
+  savedAt: string;
+};
+
+/**
+ * Validates the shape of a saved game read from storage or posted by a
+ * client. Returns `null` when it is malformed or too long.
+ */
+export function parseSavedGame(value: unknown): SavedGame | null {
+  try {
+    const game = (typeof value === 'string' ? JSON.parse(value) : value) as
+      | Partial<SavedGame>
+      | null
+      | undefined;
+
+    if (
+      !game ||
+      !isValidSeed(game.seed) ||
+      !isDifficulty(game.difficulty) ||
+      !Number.isInteger(game.hintsUsed) ||
+      typeof game.savedAt !== 'string' ||
+      Number.isNaN(Date.parse(game.savedAt))
+    ) {
+      return null;
+    }
+
+    const moves = parseMoves(game.moves);
+    if (moves.length > MAX_SAVED_MOVES) return null;
+
+    return {
+      seed: game.seed,
+      difficulty: game.difficulty,
+      moves,
+      hintsUsed: game.hintsUsed!,
+      savedAt: game.savedAt,
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Reads a saved game to offer it to the player. Returns `null` unless its
+ * moves fit its board, which is dealt from `cats`.
+ */
+export function restoreSavedGame(value: unknown, cats: Cat[]) {
+  const game = parseSavedGame(value);
+  if (!game) return null;
+
+  try {
+    const {state} = generatePuzzle(
+      cats,
+      DIFFICULTY_CONFIG[game.difficulty],
+      game.seed,
+    );
+    replayMoves(state, game.moves);
+    return game;
+  } catch (error) {
+    return null;
+  }
+}
+
+// A customer's game as the server keeps it. `tookBack` is worked out from
+// successive saves, never taken from the client.
+type StoredGame = SavedGame & {tookBack: boolean};
+
+function startsWith(moves: Move[], prefix: Move[]) {
+  return prefix.every(
+    (move, i) =>
+      moves[i]?.from === move.from &&
+      moves[i].to === move.to &&
+      moves[i].count === move.count,
+  );
+}
+
+function isSameBoard(a: Pick<SavedGame, 'seed' | 'difficulty'>, b: typeof a) {
+  return a.seed === b.seed && a.difficulty === b.difficulty;
+}
+
+function getSavedGameKey(customerId: string) {
+  return `match:saved-game:${customerId}`;
+}
+
+export async function loadCustomerGame(
+  kv: KeyValueStore,
+  customerId: string,
+  cats: Cat[],
+) {
+  return restoreSavedGame(await kv.get(getSavedGameKey(customerId)), cats);
+}
+
+/**
+ * Whether a customer took moves back on their way to solving a board with
+ * `moves`, as far as their saves of it tell. Boards that are not saved,
+ * such as daily challenges, never count as taken back.
+ */
+export async function hasCustomerTakenBack(
+  kv: KeyValueStore,
+  customerId: string,
+  game: Pick<SavedGame, 'seed' | 'difficulty' | 'moves'>,
+) {
+  const stored = await getJSON<StoredGame>(kv, getSavedGameKey(customerId));
+  const previous = parseSavedGame(stored);
+  if (!previous || !isSameBoard(previous, game)) return false;
+
+  return stored!.tookBack === true || !startsWith(game.moves, previous.moves);
+}
+
+/**
+ * Stores a logged-in customer's game, or clears it for `null`. Saves can
+ * arrive out of order, so one older than the stored game is dropped and
+ * `false` returned.
+ */
+export async function saveCustomerGame(
+  kv: KeyValueStore,
+  customerId: string,
+  game: SavedGame | null,
+) {
+  const key = getSavedGameKey(customerId);
+  if (!game) {
+    await kv.delete(key);
+    return true;
+  }
+
+  const stored = await getJSON<StoredGame>(kv, key);
+  const previous = parseSavedGame(stored);
+  if (previous && Date.parse(previous.savedAt) > Date.parse(game.savedAt)) {
+    return false;
+  }
+
+  // A save that does not continue the last one of its board wound it back
+  const tookBack =
+    !!previous &&
+    isSameBoard(previous, game) &&
+    (stored!.tookBack === true || !startsWith(game.moves, previous.moves));
+
+  const storedGame: StoredGame = {...game, tookBack};
+  await putJSON(kv, key, storedGame, {expirationTtl: SAVED_GAME_TTL});
+  return true;
+}
+
+export function loadLocalGame(cats: Cat[]) {
+  try {
+    return restoreSavedGame(
+      window.localStorage.getItem(SAVED_GAME_STORAGE_KEY),
+      cats,
+    );
+  } catch (error) {
+    // Storage can be unavailable, e.g. in private browsing
+    return null;
+  }
+}
+
+export function saveLocalGame(game: SavedGame | null) {
+  try {
+    if (game) {
+      window.localStorage.setItem(SAVED_GAME_STORAGE_KEY, JSON.stringify(game));
+    } else {
+      window.localStorage.removeItem(SAVED_GAME_STORAGE_KEY);
+    }
+  } catch (error) {
+    // Losing a save is better than breaking the game
+  }
+}
+
+function saveRemoteGame(game: SavedGame | null) {
+  return fetch('/api/match-progress', {
+    method: game ? 'POST' : 'DELETE',
+    body: game ? JSON.stringify(game) : undefined,
+    headers: {'Content-Type': 'application/json'},
+    keepalive: true,
+  }).catch(() => {
+    // The local board is still intact; the next move saves again
+  });
+}
+
+/**
+ * Stores the game of a logged-in customer through `/api/match-progress`
+ * once moves stop for a moment, one request at a time. A plain request is
+ * used rather than a fetcher so saving does not revalidate the page's
+ * loaders.
+ */
+export class RemoteGameSaver {
+  private pending: {game: SavedGame | null} | null = null;
+  private timeout: ReturnType<typeof setTimeout> | undefined;
+  private request: Promise<unknown> = Promise.resolve();
+
+  save(game: SavedGame | null) {
+    this.pending = {game};
+    clearTimeout(this.timeout);
+    this.timeout = setTimeout(() => this.flush(), REMOTE_SAVE_DELAY);
+  }
+
+  // Sends the latest game now, e.g. when the page is hidden
+  flush() {
+    clearTimeout(this.timeout);
+    if (!this.pending) return;
+
+    const {game} = this.pending;
+    this.pending = null;
+    this.request = this.request.then(() => saveRemoteGame(game));
+  }
+}
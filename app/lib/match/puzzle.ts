@@ -0,0 +1,82 @@
+import {
+  type Cat,
+  type LevelConfig,
+  type GameState,
+  type Move,
+  createGame,
+  isSolved,
+  replayMoves,
+  shuffleArray,
+} from './engine';
+import {createRandom} from './random';
+import {solve} from './solver';
+
+// Boards dealt before generation gives up
+const MAX_GENERATION_ATTEMPTS = 50;
+
+export type Puzzle = {
+  seed: string;
+  state: GameState;
+  // Length of the shortest solution
+  optimalMoves: number;
+  solution: Move[];
+};
+
+/**
+ * Deals boards until the solver proves one can be won, so players are
+ * never shown a puzzle that was lost from the start. Every random choice,
+ * including which cats take part, comes from `seed`, so the same seed and
+ * config always produce the same puzzle.
+ */
+export function generatePuzzle(
+  availableCats: Cat[],
+  config: LevelConfig,
+  seed: string,
+): Puzzle {
+  if (availableCats.length < config.cats) {
+    throw new Error(
+      `A board of ${config.cats} cats cannot be dealt from ${availableCats.length}`,
+    );
+  }
+
+  const random = createRandom(seed);
+  const cats = shuffleArray(availableCats, random).slice(0, config.cats);
+
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const state = createGame(cats, config, random);
+    const solution = solve(state);
+
+    if (solution) {
+      return {
+        seed,
+        state,
+        optimalMoves: solution.moves.length,
+        solution: solution.moves,
+      };
+    }
+  }
+
+  throw new Error(
+    `Could not generate a solvable puzzle for seed ${seed} in ${MAX_GENERATION_ATTEMPTS} attempts`,
+  );
+}
+
+/**
+ * Deals the puzzle for `seed` again and replays a submitted move list on
+ * it. Throws unless the moves are legal and end on a solved board, so a
+ * client cannot claim a win it did not play.
+ */
+export function verifySolution(
+  availableCats: Cat[],
+  config: LevelConfig,
+  seed: string,
+  moves: Move[],
+): Puzzle {
+  const puzzle = generatePuzzle(availableCats, config, seed);
+
+  if (!isSolved(replayMoves(puzzle.state, moves))) {
+    throw new Error('The submitted moves do not solve the puzzle');
+  }
+
+  return puzzle;
+}
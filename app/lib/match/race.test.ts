@@ -0,0 +1,174 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {createMemoryKV} from '../kv';
+import type {Move} from './engine';
+import {
+  type RaceMessage,
+  RaceHub,
+  createKVTransport,
+  createLocalTransport,
+  parseRaceMessage,
+  startRaceBot,
+} from './race';
+
+const MOVES: Move[] = [
+  {from: 0, to: 1, count: 1},
+  {from: 2, to: 0, count: 1},
+];
+
+// Lets queued deliveries and pending store reads settle
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createLocalTransport', () => {
+  it('carries messages between two players on one hub', async () => {
+    const hub = new RaceHub();
+    const alice = createLocalTransport(hub);
+    const bob = createLocalTransport(hub);
+    const received: RaceMessage[] = [];
+
+    bob.subscribe((message) => {
+      if (message.playerId !== 'bob') received.push(message);
+    });
+    alice.send({type: 'join', playerId: 'alice'});
+    alice.send({type: 'progress', playerId: 'alice', moves: MOVES});
+    alice.send({type: 'finish', playerId: 'alice', moves: 2, duration: 900});
+    await settle();
+
+    expect(received).toEqual([
+      {type: 'join', playerId: 'alice'},
+      {type: 'progress', playerId: 'alice', moves: MOVES},
+      {type: 'finish', playerId: 'alice', moves: 2, duration: 900},
+    ]);
+  });
+
+  it('stops delivering once closed', async () => {
+    const hub = new RaceHub();
+    const alice = createLocalTransport(hub);
+    const bob = createLocalTransport(hub);
+    const listener = vi.fn();
+
+    bob.subscribe(listener);
+    bob.close();
+    alice.send({type: 'join', playerId: 'alice'});
+    await settle();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(hub.size).toBe(0);
+  });
+});
+
+describe('startRaceBot', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers a join and plays its solution to the end', async () => {
+    vi.useFakeTimers();
+    const hub = new RaceHub();
+    const player = createLocalTransport(hub);
+    const received: RaceMessage[] = [];
+
+    const stop = startRaceBot(createLocalTransport(hub), MOVES, {
+      playerId: 'bot',
+      interval: 100,
+    });
+    player.subscribe((message) => {
+      if (message.playerId === 'bot') received.push(message);
+    });
+    player.send({type: 'join', playerId: 'player'});
+    await vi.advanceTimersByTimeAsync(250);
+    stop();
+
+    expect(received.map(({type}) => type)).toEqual([
+      'join',
+      'progress',
+      'progress',
+      'finish',
+    ]);
+    expect(received[2]).toEqual({
+      type: 'progress',
+      playerId: 'bot',
+      moves: MOVES,
+    });
+    expect(received[3]).toMatchObject({type: 'finish', moves: 2});
+  });
+});
+
+describe('createKVTransport', () => {
+  it('shares a room between transports on one store', async () => {
+    const kv = createMemoryKV();
+    const alice = createKVTransport(kv, 'room-1', {pollInterval: 5});
+    const bob = createKVTransport(kv, 'room-1', {pollInterval: 5});
+    const received: RaceMessage[] = [];
+
+    bob.subscribe((message) => received.push(message));
+    await alice.send({type: 'join', playerId: 'alice'});
+    await alice.send({type: 'progress', playerId: 'alice', moves: MOVES});
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    bob.close();
+
+    expect(received).toEqual([
+      {type: 'join', playerId: 'alice'},
+      {type: 'progress', playerId: 'alice', moves: MOVES},
+    ]);
+  });
+
+  it('delivers only the latest progress to a late subscriber', async () => {
+    const kv = createMemoryKV();
+    const alice = createKVTransport(kv, 'room-1');
+    const received: RaceMessage[] = [];
+
+    await alice.send({type: 'join', playerId: 'alice'});
+    await alice.send({type: 'progress', playerId: 'alice', moves: [MOVES[0]]});
+    await alice.send({type: 'progress', playerId: 'alice', moves: MOVES});
+
+    const stop = createKVTransport(kv, 'room-1').subscribe((message) =>
+      received.push(message),
+    );
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    stop();
+
+    expect(received[1]).toEqual({
+      type: 'progress',
+      playerId: 'alice',
+      moves: MOVES,
+    });
+  });
+
+  it('keeps rooms apart', async () => {
+    const kv = createMemoryKV();
+    const listener = vi.fn();
+
+    const stop = createKVTransport(kv, 'room-2', {pollInterval: 5}).subscribe(
+      listener,
+    );
+    await createKVTransport(kv, 'room-1').send({
+      type: 'join',
+      playerId: 'alice',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    stop();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseRaceMessage', () => {
+  it('reads messages sent as JSON', () => {
+    expect(
+      parseRaceMessage(JSON.stringify({type: 'join', playerId: 'alice'})),
+    ).toEqual({type: 'join', playerId: 'alice'});
+  });
+
+  it('rejects unknown, anonymous and malformed messages', () => {
+    expect(() => parseRaceMessage({type: 'cheat', playerId: 'alice'})).toThrow(
+      'Unknown race message',
+    );
+    expect(() => parseRaceMessage({type: 'join'})).toThrow(
+      'Invalid race message',
+    );
+    expect(() =>
+      parseRaceMessage({type: 'finish', playerId: 'alice', moves: 1.5}),
+    ).toThrow('Invalid race result');
+    expect(() => parseRaceMessage('{')).toThrow();
+  });
+});
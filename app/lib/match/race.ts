@@ -0,0 +1,325 @@
+import {type GameState, type Move, type Stack, parseMoves} from './engine';
+import {isValidSeed} from './random';
+import {type KeyValueStore, getJSON, putJSON} from '../kv';
+
+/**
+ * Messages the players of a race exchange. Both players deal the same
+ * board from the room's seed, so progress is sent as the list of moves
+ * played and each side replays it on its own copy of the board.
+ *
+ * - `join` announces a player. It is repeated until an opponent answers,
+ *   and every player answers the first join of each other player.
+ * - `progress` carries the moves currently on the board after every
+ *   move, undo or reset.
+ * - `finish` is sent once the board is solved.
+ */
+export type RaceMessage =
+  | {type: 'join'; playerId: string}
+  | {type: 'progress'; playerId: string; moves: Move[]}
+  | {type: 'finish'; playerId: string; moves: number; duration: number};
+
+export type RaceListener = (message: RaceMessage) => void;
+
+/**
+ * Carries race messages between players. A transport may deliver a
+ * player's own messages back to them, so receivers skip those by
+ * `playerId`. `send` may return a promise that settles once the message
+ * is on its way.
+ */
+export interface RaceTransport {
+  send(message: RaceMessage): void | Promise<void>;
+  subscribe(listener: RaceListener): () => void;
+  close(): void;
+}
+
+export function parseRaceMessage(value: unknown): RaceMessage {
+  const message = (
+    typeof value === 'string' ? JSON.parse(value) : value
+  ) as Record<string, unknown> | null;
+  const playerId = message?.playerId;
+
+  if (!isValidSeed(playerId)) {
+    throw new Error('Invalid race message');
+  }
+
+  switch (message?.type) {
+    case 'join':
+      return {type: 'join', playerId};
+    case 'progress':
+      return {type: 'progress', playerId, moves: parseMoves(message.moves)};
+    case 'finish': {
+      const {moves, duration} = message;
+      if (!Number.isInteger(moves) || !Number.isFinite(duration)) {
+        throw new Error('Invalid race result');
+      }
+      return {
+        type: 'finish',
+        playerId,
+        moves: moves as number,
+        duration: duration as number,
+      };
+    }
+    default:
+      throw new Error('Unknown race message');
+  }
+}
+
+/**
+ * Hands every message published in a room to everyone subscribed to it,
+ * including the sender.
+ */
+export class RaceHub {
+  private listeners = new Set<RaceListener>();
+
+  get size() {
+    return this.listeners.size;
+  }
+
+  subscribe(listener: RaceListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(message: RaceMessage) {
+    this.listeners.forEach((listener) => listener(message));
+  }
+}
+
+/**
+ * A transport that stays in this JavaScript context, e.g. to race the
+ * computer or to exercise the race logic in tests. Connect both players
+ * to the same hub.
+ */
+export function createLocalTransport(hub: RaceHub): RaceTransport {
+  const unsubscribes = new Set<() => void>();
+
+  return {
+    send(message) {
+      // Delivered asynchronously like any network transport
+      queueMicrotask(() => hub.publish(message));
+    },
+    subscribe(listener) {
+      const unsubscribe = hub.subscribe(listener);
+      unsubscribes.add(unsubscribe);
+      return () => {
+        unsubscribe();
+        unsubscribes.delete(unsubscribe);
+      };
+    },
+    close() {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      unsubscribes.clear();
+    },
+  };
+}
+
+/**
+ * A transport over the `/api/race` route: messages arrive as server-sent
+ * events and are sent with a POST.
+ */
+export function createEventSourceTransport(
+  roomId: string,
+  endpoint = '/api/race',
+): RaceTransport {
+  const url = `${endpoint}?room=${encodeURIComponent(roomId)}`;
+  const source = new EventSource(url);
+
+  return {
+    send(message) {
+      fetch(url, {
+        method: 'POST',
+        body: JSON.stringify(message),
+        headers: {'Content-Type': 'application/json'},
+      }).catch(() => {
+        // Progress is sent again with the next move, joins are repeated
+      });
+    },
+    subscribe(listener) {
+      const handleMessage = (event: MessageEvent<string>) => {
+        try {
+          listener(parseRaceMessage(event.data));
+        } catch {
+          // Skip messages from an incompatible client
+        }
+      };
+
+      source.addEventListener('message', handleMessage);
+      return () => source.removeEventListener('message', handleMessage);
+    },
+    close() {
+      source.close();
+    },
+  };
+}
+
+// How often a room kept in a key-value store is checked for new messages
+const ROOM_POLL_INTERVAL = 500;
+
+// Seconds a race room is kept after its last message
+const ROOM_TTL = 60 * 60;
+
+// The latest message of each type a player sent, numbered in sending order
+type RacePlayerRecord = {
+  seq: number;
+  messages: Partial<
+    Record<RaceMessage['type'], {seq: number; message: RaceMessage}>
+  >;
+};
+
+/**
+ * A transport over a race room kept in a key-value store, so players on
+ * different server instances share it; `/api/race` serves it to browsers.
+ * Only each player's latest message of each type is kept, which is all a
+ * race needs since progress carries every move and joins are repeated.
+ * Subscribers poll the store for changes.
+ */
+export function createKVTransport(
+  kv: KeyValueStore,
+  roomId: string,
+  {pollInterval = ROOM_POLL_INTERVAL} = {},
+): RaceTransport {
+  const roomKey = `match:race:${roomId}`;
+  const getPlayerKey = (playerId: string) => `${roomKey}:${playerId}`;
+  const stops = new Set<() => void>();
+
+  return {
+    async send(message) {
+      const playerKey = getPlayerKey(message.playerId);
+      const [players, record] = await Promise.all([
+        getJSON<string[]>(kv, roomKey),
+        getJSON<RacePlayerRecord>(kv, playerKey),
+      ]);
+      const seq = (record?.seq ?? 0) + 1;
+
+      await putJSON(
+        kv,
+        playerKey,
+        {
+          seq,
+          messages: {...record?.messages, [message.type]: {seq, message}},
+        },
+        {expirationTtl: ROOM_TTL},
+      );
+      // Two players joining at once may drop one of them here, but joins
+      // are repeated until an opponent answers
+      if (!players?.includes(message.playerId)) {
+        await putJSON(kv, roomKey, [...(players ?? []), message.playerId], {
+          expirationTtl: ROOM_TTL,
+        });
+      }
+    },
+    subscribe(listener) {
+      // The last message number delivered per player
+      const delivered = new Map<string, number>();
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      let stopped = false;
+
+      const poll = async () => {
+        try {
+          const players = (await getJSON<string[]>(kv, roomKey)) ?? [];
+          const records = await Promise.all(
+            players.map((playerId) =>
+              getJSON<RacePlayerRecord>(kv, getPlayerKey(playerId)),
+            ),
+          );
+
+          records.forEach((record, index) => {
+            const last = delivered.get(players[index]) ?? 0;
+            if (stopped || !record || record.seq <= last) return;
+
+            delivered.set(players[index], record.seq);
+            Object.values(record.messages)
+              .filter((entry) => entry.seq > last)
+              .sort((a, b) => a.seq - b.seq)
+              .forEach((entry) => listener(entry.message));
+          });
+        } catch {
+          // The store is unreachable for now; try again on the next poll
+        }
+
+        if (!stopped) timeout = setTimeout(poll, pollInterval);
+      };
+
+      const stop = () => {
+        stopped = true;
+        clearTimeout(timeout);
+        stops.delete(stop);
+      };
+
+      stops.add(stop);
+      poll();
+      return stop;
+    },
+    close() {
+      stops.forEach((stop) => stop());
+    },
+  };
+}
+
+// Whether a stack holds every box of one cat
+export function isStackComplete(state: GameState, stack: Stack) {
+  return (
+    stack.length === state.stackSize &&
+    stack.every((box) => box.cat.id === stack[0].cat.id)
+  );
+}
+
+/**
+ * Completed stacks, the race's measure of progress.
+ */
+export function countCompletedStacks(state: GameState) {
+  return state.stacks.filter((stack) => isStackComplete(state, stack)).length;
+}
+
+/**
+ * Plays `solution` one move every `interval` ms as a computer opponent,
+ * starting once another player joined. Returns a function that stops it.
+ */
+export function startRaceBot(
+  transport: RaceTransport,
+  solution: Move[],
+  {playerId, interval}: {playerId: string; interval: number},
+) {
+  let timer: ReturnType<typeof setInterval> | undefined;
+  const answered = new Set<string>();
+
+  const play = () => {
+    const startedAt = Date.now();
+    let played = 0;
+
+    timer = setInterval(() => {
+      played++;
+      transport.send({
+        type: 'progress',
+        playerId,
+        moves: solution.slice(0, played),
+      });
+
+      if (played === solution.length) {
+        clearInterval(timer);
+        transport.send({
+          type: 'finish',
+          playerId,
+          moves: played,
+          duration: Date.now() - startedAt,
+        });
+      }
+    }, interval);
+  };
+
+  const unsubscribe = transport.subscribe((message) => {
+    if (message.type !== 'join' || message.playerId === playerId) return;
+    if (answered.has(message.playerId)) return;
+
+    answered.add(message.playerId);
+    transport.send({type: 'join', playerId});
+    if (!timer) play();
+  });
+
+  return () => {
+    clearInterval(timer);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Deterministic randomness for puzzle generation. The same seed always
+ * produces the same sequence, so a board can be rebuilt from its seed on
+ * any device or on the server.
+ */
+
+import {hashString} from '../hash';
+
+export type Random = () => number;
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 8;
+
+/**
+ * Creates a short, URL-safe seed. Ambiguous characters are left out so
+ * seeds can be read aloud or typed into a bug report.
+ */
+export function createSeed() {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+export function isValidSeed(value: unknown): value is string {
+  return typeof value === 'string' && /^[a-z0-9-]{1,64}$/i.test(value);
+}
+
+/**
+ * Returns a mulberry32 generator seeded from a string.
+ */
+export function createRandom(seed: string): Random {
+  let state = hashString(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
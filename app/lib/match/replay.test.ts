@@ -0,0 +1,125 @@
+import {describe, expect, it} from 'vitest';
+import {PLACEHOLDER_CATS} from './cats';
+import {DIFFICULTY_CONFIG, isSolved} from './engine';
+import {generatePuzzle} from './puzzle';
+import {
+  type Replay,
+  createReplay,
+  getReplayStates,
+  parseReplay,
+} from './replay';
+
+const level = DIFFICULTY_CONFIG.easy;
+const {state, solution} = generatePuzzle(PLACEHOLDER_CATS, level, 'replay');
+
+function createFile(replay: Partial<Record<keyof Replay, unknown>> = {}) {
+  return JSON.stringify({
+    ...createReplay({seed: 'replay', level, board: state, moves: solution}),
+    ...replay,
+  });
+}
+
+describe('parseReplay', () => {
+  it('reads a replay it wrote, as text or parsed', () => {
+    const replay = createReplay({
+      seed: 'replay',
+      level,
+      board: state,
+      moves: solution,
+    });
+
+    expect(parseReplay(JSON.stringify(replay))).toEqual(replay);
+    expect(parseReplay(replay)).toEqual(replay);
+  });
+
+  it('reads a replay without moves or a creation date', () => {
+    const replay = parseReplay(createFile({moves: [], createdAt: undefined}));
+
+    expect(replay.moves).toEqual([]);
+    expect(replay.createdAt).toBe('');
+    expect(getReplayStates(replay)).toEqual([state]);
+  });
+
+  it('rejects other versions', () => {
+    for (const version of [undefined, 0, 2, '1']) {
+      expect(() => parseReplay(createFile({version}))).toThrow(
+        'Unsupported Cat Sort replay version',
+      );
+    }
+    expect(() => parseReplay(null)).toThrow(
+      'Unsupported Cat Sort replay version',
+    );
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parseReplay('not a replay')).toThrow(SyntaxError);
+  });
+
+  it('rejects a missing or invalid seed or board', () => {
+    for (const replay of [
+      {seed: undefined},
+      {seed: 'not a seed'},
+      {seed: 'x'.repeat(65)},
+      {board: undefined},
+      {board: JSON.parse(createFile()) as unknown},
+    ]) {
+      expect(() => parseReplay(createFile(replay))).toThrow(
+        'Invalid Cat Sort replay',
+      );
+    }
+  });
+
+  it('rejects boards that cannot be read', () => {
+    expect(() => parseReplay(createFile({board: '{}'}))).toThrow(
+      'Invalid Cat Sort state',
+    );
+    expect(() => parseReplay(createFile({board: '{'}))).toThrow(SyntaxError);
+  });
+
+  it('rejects levels that cannot be played', () => {
+    expect(() => parseReplay(createFile({level: undefined}))).toThrow(
+      'Level replay: cats must be a whole number',
+    );
+    expect(() =>
+      parseReplay(createFile({level: {...level, stackSize: 20}})),
+    ).toThrow('Level replay: stackSize must be a whole number');
+  });
+
+  it('rejects malformed moves', () => {
+    for (const moves of [
+      undefined,
+      {0: solution[0]},
+      [{from: 0, to: 1}],
+      [{...solution[0], count: 1.5}],
+    ]) {
+      expect(() => parseReplay(createFile({moves}))).toThrow(
+        'Invalid Cat Sort move list',
+      );
+    }
+  });
+
+  it('rejects moves that do not fit the board', () => {
+    const [first] = solution;
+
+    expect(() =>
+      parseReplay(createFile({moves: [{from: 99, to: 0, count: 1}]})),
+    ).toThrow('Illegal move from stack 99 to stack 0');
+    expect(() =>
+      parseReplay(createFile({moves: [{...first, count: first.count + 1}]})),
+    ).toThrow(`Move from stack ${first.from} to stack ${first.to}`);
+  });
+
+  it('ignores a creation date that is not text', () => {
+    expect(parseReplay(createFile({createdAt: {}})).createdAt).toBe('');
+  });
+});
+
+describe('getReplayStates', () => {
+  it('lists every board from the deal to the win', () => {
+    const states = getReplayStates(parseReplay(createFile()));
+
+    expect(states).toHaveLength(solution.length + 1);
+    expect(states[0]).toEqual(state);
+    expect(isSolved(states[solution.length])).toBe(true);
+  });
+});
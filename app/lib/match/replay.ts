@@ -0,0 +1,120 @@
+import {
+  type GameState,
+  type LevelConfig,
+  type Move,
+  deserializeState,
+  parseMoves,
+  replayMoves,
+  serializeState,
+} from './engine';
+import {parseLevel} from './levels';
+import {isValidSeed} from './random';
+
+const REPLAY_VERSION = 1;
+
+/**
+ * A played game as a downloadable file:
+ *
+ * ```json
+ * {
+ *   "version": 1,
+ *   "seed": "k3x9q2mf",
+ *   "level": {"cats": 6, "stackSize": 4, "stacks": 8, …},
+ *   "board": "{\"cats\":[…],\"stacks\":[…]}",
+ *   "moves": [{"from": 0, "to": 6, "count": 2}, …],
+ *   "createdAt": "2024-05-31T12:00:00.000Z"
+ * }
+ * ```
+ *
+ * The seed and level deal the board again, but which cats take part also
+ * depends on the catalog at the time. `board` keeps the dealt board as
+ * `serializeState` wrote it, so a replay plays back the same game even
+ * after the catalog changed.
+ */
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  seed: string;
+  level: LevelConfig;
+  board: string;
+  moves: Move[];
+  createdAt: string;
+};
+
+export function createReplay({
+  seed,
+  level,
+  board,
+  moves,
+}: {
+  seed: string;
+  level: LevelConfig;
+  board: GameState;
+  moves: Move[];
+}): Replay {
+  return {
+    version: REPLAY_VERSION,
+    seed,
+    level,
+    board: serializeState(board),
+    moves,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads a replay file. Throws when it is malformed or its moves cannot be
+ * played on its board.
+ */
+export function parseReplay(value: unknown): Replay {
+  const replay = (
+    typeof value === 'string' ? JSON.parse(value) : value
+  ) as Partial<Replay> | null;
+
+  if (replay?.version !== REPLAY_VERSION) {
+    throw new Error('Unsupported Cat Sort replay version');
+  }
+  if (!isValidSeed(replay.seed) || typeof replay.board !== 'string') {
+    throw new Error('Invalid Cat Sort replay');
+  }
+
+  const {config: level} = parseLevel({...replay.level, id: 'replay'});
+  const moves = parseMoves(replay.moves);
+
+  // Throws on the first move that does not fit the board
+  replayMoves(deserializeState(replay.board), moves);
+
+  return {
+    version: REPLAY_VERSION,
+    seed: replay.seed,
+    level,
+    board: replay.board,
+    moves,
+    createdAt: typeof replay.createdAt === 'string' ? replay.createdAt : '',
+  };
+}
+
+// Every board of a replay, from the dealt one to the last move
+export function getReplayStates(replay: Replay) {
+  const states = [deserializeState(replay.board)];
+  for (const move of replay.moves) {
+    states.push(replayMoves(states[states.length - 1], [move]));
+  }
+  return states;
+}
+
+/**
+ * Saves a replay as a JSON file through the browser's download prompt.
+ */
+export function downloadReplay(replay: Replay) {
+  const blob = new Blob([JSON.stringify(replay, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = `cat-sort-${replay.seed}.json`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
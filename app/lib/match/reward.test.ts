@@ -0,0 +1,64 @@
+import {describe, expect, it} from 'vitest';
+import {createMemoryKV} from '../kv';
+import {
+  claimReward,
+  getPar,
+  getRewardConfig,
+  isUnderPar,
+  releaseReward,
+} from './reward';
+
+describe('getPar', () => {
+  it('allows a quarter more moves than optimal, rounded up', () => {
+    expect(getPar(8)).toBe(10);
+    expect(getPar(10)).toBe(13);
+    expect(getPar(0)).toBe(0);
+  });
+
+  it('counts par itself as under par', () => {
+    expect(isUnderPar(10, 8)).toBe(true);
+    expect(isUnderPar(11, 8)).toBe(false);
+  });
+});
+
+describe('claimReward', () => {
+  it('claims a board once per owner', async () => {
+    const kv = createMemoryKV();
+
+    expect(await claimReward(kv, 'cart-1', 'seed-1')).toBe(true);
+    expect(await claimReward(kv, 'cart-1', 'seed-1')).toBe(false);
+    expect(await claimReward(kv, 'cart-2', 'seed-1')).toBe(true);
+    expect(await claimReward(kv, 'cart-1', 'seed-2')).toBe(true);
+  });
+
+  it('can claim again once a claim is released', async () => {
+    const kv = createMemoryKV();
+
+    await claimReward(kv, 'cart-1', 'seed-1');
+    await releaseReward(kv, 'cart-1', 'seed-1');
+
+    expect(await claimReward(kv, 'cart-1', 'seed-1')).toBe(true);
+  });
+});
+
+describe('getRewardConfig', () => {
+  it('turns rewards off without a configured store', () => {
+    expect(
+      getRewardConfig({MATCH_REWARD_DISCOUNT_CODE: 'CATSORT10'} as Env),
+    ).toBeNull();
+  });
+
+  it('turns rewards off without a discount code', () => {
+    expect(getRewardConfig({SESSION_KV: createMemoryKV()} as Env)).toBeNull();
+  });
+
+  it('uses the configured store', () => {
+    const kv = createMemoryKV();
+    expect(
+      getRewardConfig({
+        MATCH_REWARD_DISCOUNT_CODE: 'CATSORT10',
+        SESSION_KV: kv,
+      } as Env),
+    ).toEqual({kv, discountCode: 'CATSORT10'});
+  });
+});
@@ -0,0 +1,58 @@
+import {type KeyValueStore, getConfiguredKV} from '../kv';
+
+// Extra moves allowed on top of the optimal solution, as a share of it
+const PAR_SLACK = 0.25;
+
+// Seconds a claimed reward is remembered, far longer than a board is played
+const REWARD_CLAIM_TTL = 365 * 24 * 60 * 60;
+
+/**
+ * Moves a player may use and still earn a reward. Par leaves some room
+ * above the optimal solution, which few players will find on their own.
+ */
+export function getPar(optimalMoves: number) {
+  return optimalMoves + Math.ceil(optimalMoves * PAR_SLACK);
+}
+
+export function isUnderPar(moves: number, optimalMoves: number) {
+  return moves <= getPar(optimalMoves);
+}
+
+/**
+ * The discount code and the store its claims are kept in, or `null` when
+ * rewards are off. Claims kept in memory would be forgotten on restart and
+ * by other instances, so there are no rewards without a configured store.
+ */
+export function getRewardConfig(env: Env) {
+  const kv = getConfiguredKV(env);
+  const discountCode = env.MATCH_REWARD_DISCOUNT_CODE;
+  return kv && discountCode ? {kv, discountCode} : null;
+}
+
+function getRewardClaimKey(owner: string, seed: string) {
+  return `match:reward:${owner}:${seed}`;
+}
+
+/**
+ * Records that `owner`, a customer or cart id, claimed the reward for the
+ * board of `seed`. Returns `false` when it was claimed before, so the same
+ * board cannot be solved again for another discount.
+ */
+export async function claimReward(
+  kv: KeyValueStore,
+  owner: string,
+  seed: string,
+) {
+  const key = getRewardClaimKey(owner, seed);
+  if (await kv.get(key)) return false;
+
+  await kv.put(key, new Date().toISOString(), {
+    expirationTtl: REWARD_CLAIM_TTL,
+  });
+  return true;
+}
+
+// Gives a claim back when the discount could not be applied after all
+export function releaseReward(kv: KeyValueStore, owner: string, seed: string) {
+  return kv.delete(getRewardClaimKey(owner, seed));
+}
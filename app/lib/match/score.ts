@@ -0,0 +1,48 @@
+import {type GameMode, getMoveLimit} from './modes';
+
+// Points for solving a board at the optimal move count without help
+const BASE_SCORE = 1000;
+const EXTRA_MOVE_PENALTY = 25;
+const HINT_PENALTY = 150;
+
+// Bonus points per second left on the clock in time attack
+const TIME_BONUS = 10;
+
+// Bonus points per move left under the limit in par mode
+const MOVE_BONUS = 50;
+
+export type ScoreInput = {
+  moves: number;
+  optimalMoves: number;
+  hintsUsed: number;
+  mode?: GameMode;
+  // Seconds left on the clock, for time attack
+  secondsLeft?: number;
+};
+
+/**
+ * Scores a solved board. Every move beyond the optimal solution and every
+ * hint taken costs points, and the score never drops below zero. Time
+ * attack adds a bonus for the time left and par for the moves left.
+ */
+export function calculateScore({
+  moves,
+  optimalMoves,
+  hintsUsed,
+  mode = 'classic',
+  secondsLeft = 0,
+}: ScoreInput) {
+  const extraMoves = Math.max(0, moves - optimalMoves);
+  const score = Math.max(
+    0,
+    BASE_SCORE - extraMoves * EXTRA_MOVE_PENALTY - hintsUsed * HINT_PENALTY,
+  );
+
+  if (mode === 'timeAttack') {
+    return score + Math.max(0, secondsLeft) * TIME_BONUS;
+  }
+  if (mode === 'par') {
+    return score + Math.max(0, getMoveLimit(optimalMoves) - moves) * MOVE_BONUS;
+  }
+  return score;
+}
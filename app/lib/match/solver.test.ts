@@ -0,0 +1,166 @@
+import {describe, expect, it} from 'vitest';
+import {PLACEHOLDER_CATS} from './cats';
+import {
+  type GameState,
+  type LevelConfig,
+  DIFFICULTY_CONFIG,
+  applyMove,
+  createGame,
+  isSolved,
+  legalMoves,
+  replayMoves,
+} from './engine';
+import {generatePuzzle} from './puzzle';
+import {createRandom} from './random';
+import {getHint, solve} from './solver';
+
+// Small enough for a breadth-first search to prove the shortest solution
+const SMALL_LEVEL: LevelConfig = {
+  ...DIFFICULTY_CONFIG.easy,
+  cats: 3,
+  stackSize: 3,
+  stacks: 5,
+  preMatchedPairs: 0,
+  groupStacks: false,
+  breakupProbability: 1,
+};
+
+function countShortestSolution(state: GameState) {
+  const key = (board: GameState) =>
+    board.stacks.map((stack) => stack.map((box) => box.cat.id)).join('|');
+  const seen = new Set([key(state)]);
+  let frontier = [state];
+
+  for (let depth = 0; frontier.length; depth++) {
+    if (frontier.some(isSolved)) return depth;
+
+    const next: GameState[] = [];
+    for (const board of frontier) {
+      for (const {from, to} of legalMoves(board)) {
+        const moved = applyMove(board, from, to).state;
+        if (!seen.has(key(moved))) {
+          seen.add(key(moved));
+          next.push(moved);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+describe('solve', () => {
+  it('finds a shortest solution', () => {
+    const state = createGame(
+      PLACEHOLDER_CATS.slice(0, SMALL_LEVEL.cats),
+      SMALL_LEVEL,
+      createRandom('solver-test'),
+    );
+    const solution = solve(state);
+
+    expect(solution).not.toBeNull();
+    expect(isSolved(replayMoves(state, solution!.moves))).toBe(true);
+    expect(solution!.moves.length).toBe(countShortestSolution(state));
+  });
+
+  it('gives up on a board that cannot be solved', () => {
+    const state = generatePuzzle(
+      PLACEHOLDER_CATS,
+      DIFFICULTY_CONFIG.easy,
+      'solver-test',
+    ).state;
+    const stuck = {...state, stackKinds: state.stackKinds.map(() => 'locked')};
+
+    expect(solve(stuck as GameState)).toBeNull();
+  });
+});
+
+describe('getHint', () => {
+  const puzzle = generatePuzzle(
+    PLACEHOLDER_CATS,
+    DIFFICULTY_CONFIG.easy,
+    'hint-test',
+  );
+
+  // A hard board where one box changed cat, which leaves one cat a box
+  // short: it cannot be solved, but takes thousands of boards to tell
+  const {state: hard} = generatePuzzle(
+    PLACEHOLDER_CATS,
+    DIFFICULTY_CONFIG.hard,
+    'hint-test',
+  );
+  const [first, ...rest] = hard.stacks;
+  const bottom = first[first.length - 1];
+  const odd: GameState = {
+    ...hard,
+    stacks: [
+      [
+        ...first.slice(0, -1),
+        {...bottom, cat: hard.cats.find((cat) => cat.id !== bottom.cat.id)!},
+      ],
+      ...rest,
+    ],
+  };
+
+  it('gives the first move of a shortest solution', async () => {
+    expect(await getHint(puzzle.state)).toEqual({
+      move: solve(puzzle.state)!.moves[0],
+    });
+  });
+
+  it('tells a board that cannot be solved from one too hard to search', async () => {
+    expect(await getHint(odd)).toEqual({move: null, reason: 'unsolvable'});
+    expect(await getHint(odd, {maxStates: 5000})).toEqual({
+      move: null,
+      reason: 'gaveUp',
+    });
+  });
+
+  it('lets other work run during a long search', async () => {
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 0);
+
+    await getHint(odd, {maxStates: 5000});
+    clearInterval(interval);
+
+    expect(ticks).toBeGreaterThan(0);
+  });
+
+  it('stops once aborted', async () => {
+    const search = new AbortController();
+    const hint = getHint(odd, {signal: search.signal});
+    search.abort();
+
+    expect(await hint).toBeNull();
+  });
+});
+
+describe('generatePuzzle', () => {
+  it('deals the same board and par for the same seed', () => {
+    const first = generatePuzzle(
+      PLACEHOLDER_CATS,
+      DIFFICULTY_CONFIG.medium,
+      'fixed-seed',
+    );
+    const second = generatePuzzle(
+      PLACEHOLDER_CATS,
+      DIFFICULTY_CONFIG.medium,
+      'fixed-seed',
+    );
+
+    expect(second.state).toEqual(first.state);
+    expect(second.optimalMoves).toBe(first.optimalMoves);
+    expect(isSolved(replayMoves(first.state, first.solution))).toBe(true);
+  });
+
+  it('refuses to deal fewer cats than the level asks for', () => {
+    expect(() =>
+      generatePuzzle(
+        PLACEHOLDER_CATS.slice(0, 3),
+        DIFFICULTY_CONFIG.easy,
+        'fixed-seed',
+      ),
+    ).toThrow('cannot be dealt');
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  type GameState,
+  type Move,
+  type Stack,
+  applyMove,
+  getMatchingTopBoxes,
+  isSolved,
+  legalMoves,
+} from './engine';
+
+// Upper bound on explored boards before a search gives up
+const DEFAULT_MAX_STATES = 200_000;
+
+export type SolveOptions = {
+  maxStates?: number;
+};
+
+export type Solution = {
+  moves: Move[];
+  // Number of boards expanded while searching
+  explored: number;
+};
+
+/**
+ * How a search ended: with a shortest solution, with every reachable
+ * board tried, or after giving up at `maxStates` expanded boards.
+ */
+type SearchResult =
+  | {status: 'solved'; solution: Solution}
+  | {status: 'unsolvable'}
+  | {status: 'gaveUp'};
+
+export type HintOptions = SolveOptions & {
+  // Stops the search, e.g. once the board it was asked about changed
+  signal?: AbortSignal;
+};
+
+/**
+ * The first move of a shortest solution, or why there is none: `unsolvable`
+ * when the board can no longer be solved, `gaveUp` when it is too hard to
+ * tell.
+ */
+export type Hint = {move: Move} | {move: null; reason: 'unsolvable' | 'gaveUp'};
+
+// Boards a search expands before letting the browser paint and take input
+const STATES_PER_STEP = 2000;
+
+type SearchNode = {
+  state: GameState;
+  moves: Move[];
+  cost: number;
+  estimate: number;
+};
+
+/**
+ * Finds the shortest sequence of moves that solves the board with an A*
+ * search. Returns `null` when the board cannot be solved or the search
+ * exceeds `maxStates` expanded boards.
+ */
+export function solve(
+  state: GameState,
+  {maxStates = DEFAULT_MAX_STATES}: SolveOptions = {},
+): Solution | null {
+  const search = searchSolution(state, maxStates);
+  let step = search.next();
+  while (!step.done) step = search.next();
+
+  return step.value.status === 'solved' ? step.value.solution : null;
+}
+
+/**
+ * Like `solve`, but pauses every few thousand boards so a long search
+ * does not freeze the page. Resolves to `null` once `signal` aborts.
+ */
+export async function getHint(
+  state: GameState,
+  {maxStates = DEFAULT_MAX_STATES, signal}: HintOptions = {},
+): Promise<Hint | null> {
+  const search = searchSolution(state, maxStates);
+  let step = search.next();
+
+  while (!step.done) {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    if (signal?.aborted) return null;
+    step = search.next();
+  }
+
+  const result = step.value;
+  return result.status === 'solved'
+    ? {move: result.solution.moves[0]}
+    : {move: null, reason: result.status};
+}
+
+/**
+ * The A* search behind `solve` and `getHint`, yielding after every
+ * `STATES_PER_STEP` expanded boards.
+ */
+function* searchSolution(
+  state: GameState,
+  maxStates: number,
+): Generator<void, SearchResult> {
+  const open = new MinHeap<SearchNode>(
+    (a, b) => a.cost + a.estimate - (b.cost + b.estimate) || b.cost - a.cost,
+  );
+  const bestCost = new Map<string, number>();
+
+  open.push({
+    state,
+    moves: [],
+    cost: 0,
+    estimate: estimateRemainingMoves(state),
+  });
+  bestCost.set(getStateKey(state), 0);
+
+  let explored = 0;
+
+  while (open.size > 0) {
+    const node = open.pop()!;
+
+    if (isSolved(node.state)) {
+      return {status: 'solved', solution: {moves: node.moves, explored}};
+    }
+
+    // Skip nodes superseded by a cheaper path to the same board
+    if (node.cost > bestCost.get(getStateKey(node.state))!) continue;
+
+    if (++explored > maxStates) return {status: 'gaveUp'};
+    if (explored % STATES_PER_STEP === 0) yield;
+
+    for (const {from, to} of legalMoves(node.state)) {
+      if (isPointlessMove(node.state, from, to)) continue;
+
+      const {state: next, move} = applyMove(node.state, from, to);
+      const key = getStateKey(next);
+      const cost = node.cost + 1;
+      const known = bestCost.get(key);
+
+      if (known !== undefined && known <= cost) continue;
+
+      bestCost.set(key, cost);
+      open.push({
+        state: next,
+        moves: [...node.moves, move],
+        cost,
+        estimate: estimateRemainingMoves(next),
+      });
+    }
+  }
+
+  return {status: 'unsolvable'};
+}
+
+/**
+ * Identifies a board regardless of stack order, since swapping two stacks
+ * of the same kind never changes how many moves are left.
+ */
+function getStateKey(state: GameState) {
+  return state.stacks
+    .map(
+      (stack, index) =>
+        `${state.stackKinds[index]}:${stack
+          .map((box) => box.cat.id)
+          .join(',')}`,
+    )
+    .sort()
+    .join('|');
+}
+
+/**
+ * Admissible lower bound on the moves left. Every run of boxes sitting on
+ * a different cat has to move at least once, and so does every bottom run
+ * except one per cat. Nothing can be added to a locked stack, so unless it
+ * is already complete all of its runs have to move. A move only ever
+ * carries one run that has not moved before, so the sum never
+ * overestimates.
+ */
+function estimateRemainingMoves(state: GameState) {
+  let estimate = 0;
+  const bottomRuns: Record<string, number> = {};
+
+  for (const [index, stack] of state.stacks.entries()) {
+    if (stack.length === 0) continue;
+
+    if (state.stackKinds[index] === 'locked') {
+      const isComplete =
+        stack.length === state.stackSize && countRuns(stack) === 1;
+      if (!isComplete) estimate += countRuns(stack);
+      continue;
+    }
+
+    estimate += countRuns(stack) - 1;
+
+    const bottomCatId = stack[stack.length - 1].cat.id;
+    bottomRuns[bottomCatId] = (bottomRuns[bottomCatId] ?? 0) + 1;
+  }
+
+  return Object.values(bottomRuns).reduce(
+    (total, count) => total + count - 1,
+    estimate,
+  );
+}
+
+function countRuns(stack: Stack) {
+  let runs = stack.length ? 1 : 0;
+  for (let i = 1; i < stack.length; i++) {
+    if (stack[i].cat.id !== stack[i - 1].cat.id) runs++;
+  }
+  return runs;
+}
+
+/**
+ * Moving an open stack that holds a single cat into an empty stack only
+ * swaps stack positions, which never gets the board closer to solved.
+ */
+function isPointlessMove(state: GameState, from: number, to: number) {
+  const source = state.stacks[from];
+  return (
+    state.stackKinds[from] === 'open' &&
+    state.stacks[to].length === 0 &&
+    getMatchingTopBoxes(source).length === source.length
+  );
+}
+
+class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: T) {
+    const {items} = this;
+    items.push(item);
+
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(items[index], items[parent]) >= 0) break;
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop() {
+    const {items} = this;
+    const top = items[0];
+    const last = items.pop();
+
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+
+        if (
+          left < items.length &&
+          this.compare(items[left], items[smallest]) < 0
+        ) {
+          smallest = left;
+        }
+        if (
+          right < items.length &&
+          this.compare(items[right], items[smallest]) < 0
+        ) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+
+        [items[index], items[smallest]] = [items[smallest], items[index]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
@@ -0,0 +1,211 @@
+import type {Session, SessionStorage} from '@shopify/remix-oxygen';
+import {describe, expect, it} from 'vitest';
+import {type KeyValueStore, createMemoryKV} from './kv';
+import {
+  createKVSessionStorage,
+  getSessionBackend,
+  getSessionMaxAge,
+  getSessionStorage,
+  rotateSession,
+} from './session';
+
+const SECRETS = ['a-session-secret'];
+
+// A memory store that remembers the TTL of each write
+function createRecordingKV() {
+  const kv = createMemoryKV();
+  const ttls = new Map<string, number | undefined>();
+  const store: KeyValueStore = {
+    get: (key) => kv.get(key),
+    async put(key, value, options) {
+      ttls.set(key, options?.expirationTtl);
+      await kv.put(key, value, options);
+    },
+    delete: (key) => kv.delete(key),
+  };
+  return {kv: store, ttls};
+}
+
+// The `Cookie` header a browser sends back after `Set-Cookie`
+function toCookie(setCookie: string) {
+  return setCookie.split(';')[0];
+}
+
+// A new session's id is only known once the cookie is read back
+async function commit(storage: SessionStorage, session: Session) {
+  const cookie = toCookie(await storage.commitSession(session));
+  const {id} = await storage.getSession(cookie);
+  return {cookie, id};
+}
+
+describe('createKVSessionStorage', () => {
+  it('keeps the data in the store and only the id in the cookie', async () => {
+    const {kv} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+
+    const session = await storage.getSession();
+    session.set('customerAccessToken', 'secret-token');
+    const {cookie, id} = await commit(storage, session);
+
+    expect(cookie).not.toContain('secret-token');
+    expect(await kv.get(`session:${id}`)).toContain('secret-token');
+
+    const restored = await storage.getSession(cookie);
+    expect(restored.get('customerAccessToken')).toBe('secret-token');
+  });
+
+  it('expires entries with the session, or after 30 days', async () => {
+    const {kv, ttls} = createRecordingKV();
+
+    const expiring = createKVSessionStorage(kv, {
+      secrets: SECRETS,
+      maxAge: 3600,
+    });
+    const session = await commit(expiring, await expiring.getSession());
+    expect(ttls.get(`session:${session.id}`)).toBe(3600);
+
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+    const lasting = await commit(storage, await storage.getSession());
+    expect(ttls.get(`session:${lasting.id}`)).toBe(30 * 24 * 60 * 60);
+  });
+
+  it('never asks the store for a TTL under a minute', async () => {
+    const {kv, ttls} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS, maxAge: 5});
+
+    const {id} = await commit(storage, await storage.getSession());
+
+    expect(ttls.get(`session:${id}`)).toBe(60);
+  });
+
+  it('starts a fresh session when the entry is corrupt or gone', async () => {
+    const {kv} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+
+    const session = await storage.getSession();
+    session.set('cartId', 'gid://shopify/Cart/1');
+    const {cookie, id} = await commit(storage, session);
+
+    await kv.put(`session:${id}`, '{not json');
+    expect((await storage.getSession(cookie)).data).toEqual({});
+
+    await kv.delete(`session:${id}`);
+    expect((await storage.getSession(cookie)).data).toEqual({});
+  });
+
+  it('deletes the entry when the session is destroyed', async () => {
+    const {kv} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+
+    const session = await storage.getSession();
+    session.set('cartId', 'gid://shopify/Cart/1');
+    const {cookie, id} = await commit(storage, session);
+    await storage.destroySession(await storage.getSession(cookie));
+
+    expect(await kv.get(`session:${id}`)).toBeNull();
+  });
+});
+
+describe('rotateSession', () => {
+  it('moves the data to a new id and drops the old one', async () => {
+    const {kv} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+
+    // The session a visitor had before signing in
+    const session = await storage.getSession();
+    session.set('cartId', 'gid://shopify/Cart/1');
+    const old = await commit(storage, session);
+
+    // What the login, register, activate and reset actions do
+    const signedIn = await storage.getSession(old.cookie);
+    signedIn.set('customerAccessToken', 'secret-token');
+    const rotated = await commit(
+      storage,
+      await rotateSession(storage, signedIn),
+    );
+
+    expect(rotated.id).not.toBe(old.id);
+    expect(await kv.get(`session:${old.id}`)).toBeNull();
+
+    const restored = await storage.getSession(rotated.cookie);
+    expect(restored.data).toEqual({
+      cartId: 'gid://shopify/Cart/1',
+      customerAccessToken: 'secret-token',
+    });
+
+    const stale = await storage.getSession(old.cookie);
+    expect(stale.get('customerAccessToken')).toBeUndefined();
+  });
+
+  it('rotates a session that was never stored', async () => {
+    const {kv} = createRecordingKV();
+    const storage = createKVSessionStorage(kv, {secrets: SECRETS});
+
+    const session = await storage.getSession();
+    session.set('customerAccessToken', 'secret-token');
+    const rotated = await rotateSession(storage, session);
+
+    expect(rotated.get('customerAccessToken')).toBe('secret-token');
+  });
+
+  it('keeps cookie sessions working', async () => {
+    const storage = getSessionStorage({} as Env, SECRETS);
+
+    const session = await storage.getSession();
+    session.set('customerAccessToken', 'secret-token');
+    const rotated = await rotateSession(storage, session);
+    const cookie = toCookie(await storage.commitSession(rotated));
+
+    const restored = await storage.getSession(cookie);
+    expect(restored.get('customerAccessToken')).toBe('secret-token');
+  });
+});
+
+describe('getSessionBackend', () => {
+  it('defaults to the cookie', () => {
+    expect(getSessionBackend({} as Env)).toBe('cookie');
+    expect(getSessionBackend({SESSION_STORAGE: 'kv'} as Env)).toBe('kv');
+  });
+
+  it('rejects unknown backends', () => {
+    expect(() => getSessionBackend({SESSION_STORAGE: 'redis'} as Env)).toThrow(
+      'SESSION_STORAGE must be one of cookie, kv, memory',
+    );
+  });
+});
+
+describe('getSessionMaxAge', () => {
+  it('reads whole seconds', () => {
+    expect(getSessionMaxAge({} as Env)).toBeUndefined();
+    expect(getSessionMaxAge({SESSION_MAX_AGE: '3600'} as Env)).toBe(3600);
+  });
+
+  it('rejects anything else', () => {
+    for (const value of ['0', '-60', '1.5', 'a day']) {
+      expect(() => getSessionMaxAge({SESSION_MAX_AGE: value} as Env)).toThrow(
+        'SESSION_MAX_AGE must be a positive number of seconds',
+      );
+    }
+  });
+});
+
+describe('getSessionStorage', () => {
+  it('needs a store for kv sessions', () => {
+    expect(() =>
+      getSessionStorage({SESSION_STORAGE: 'kv'} as Env, SECRETS),
+    ).toThrow('SESSION_STORAGE=kv needs a SESSION_KV binding');
+  });
+
+  it('shares memory sessions between requests', async () => {
+    const env = {SESSION_STORAGE: 'memory'} as Env;
+
+    const session = await getSessionStorage(env, SECRETS).getSession();
+    session.set('cartId', 'gid://shopify/Cart/1');
+    const cookie = toCookie(
+      await getSessionStorage(env, SECRETS).commitSession(session),
+    );
+
+    const restored = await getSessionStorage(env, SECRETS).getSession(cookie);
+    expect(restored.get('cartId')).toBe('gid://shopify/Cart/1');
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  createCookie,
+  createCookieSessionStorage,
+  createMemorySessionStorage,
+  createSessionStorage,
+  type Session,
+  type SessionStorage,
+} from '@shopify/remix-oxygen';
+import {type KeyValueStore, getConfiguredKV} from '~/lib/kv';
+
+/**
+ * Where session data lives, picked with `SESSION_STORAGE`: the cookie itself
+ * (default), a KV store, or this server's memory, which suits development only.
+ */
+export type SessionBackend = 'cookie' | 'kv' | 'memory';
+
+export const SESSION_BACKENDS: SessionBackend[] = ['cookie', 'kv', 'memory'];
+
+// Sessions in `kv` outlive the browser session when no expiry is set
+const DEFAULT_KV_TTL = 30 * 24 * 60 * 60;
+
+// Workers KV rejects shorter expiration TTLs
+const MIN_KV_TTL = 60;
+
+type SessionCookieOptions = {
+  secrets: string[];
+  // Seconds a session lasts; unset keeps it until the browser closes
+  maxAge?: number;
+};
+
+function getCookieOptions({secrets, maxAge}: SessionCookieOptions) {
+  return {
+    name: 'session',
+    httpOnly: true,
+    path: '/',
+    sameSite: 'lax' as const,
+    secrets,
+    maxAge,
+  };
+}
+
+function getKVTtl(expires?: Date) {
+  if (!expires) return DEFAULT_KV_TTL;
+  const seconds = Math.ceil((expires.getTime() - Date.now()) / 1000);
+  return Math.max(seconds, MIN_KV_TTL);
+}
+
+/**
+ * Keeps session data in `kv` under `session:<id>`, with only the id in
+ * the cookie.
+ */
+export function createKVSessionStorage(
+  kv: KeyValueStore,
+  options: SessionCookieOptions,
+): SessionStorage {
+  const key = (id: string) => `session:${id}`;
+  const write = (id: string, data: unknown, expires?: Date) =>
+    kv.put(key(id), JSON.stringify(data), {expirationTtl: getKVTtl(expires)});
+
+  return createSessionStorage({
+    cookie: createCookie('session', getCookieOptions(options)),
+    async createData(data, expires) {
+      const id = crypto.randomUUID();
+      await write(id, data, expires);
+      return id;
+    },
+    async readData(id) {
+      const value = await kv.get(key(id));
+      if (!value) return null;
+      try {
+        return JSON.parse(value) as Record<string, unknown>;
+      } catch {
+        // A corrupt entry starts a fresh session
+        return null;
+      }
+    },
+    async updateData(id, data, expires) {
+      await write(id, data, expires);
+    },
+    async deleteData(id) {
+      await kv.delete(key(id));
+    },
+  });
+}
+
+/**
+ * A new session holding the data of `session`, whose id is dropped from
+ * `storage` so it can't be used any more.
+ */
+export async function rotateSession(storage: SessionStorage, session: Session) {
+  const rotated = await storage.getSession();
+  for (const [key, value] of Object.entries(session.data)) {
+    rotated.set(key, value);
+  }
+  if (session.id) {
+    await storage.destroySession(session);
+  }
+  return rotated;
+}
+
+export function getSessionBackend(env: Env): SessionBackend {
+  const backend = env.SESSION_STORAGE ?? 'cookie';
+  if (!SESSION_BACKENDS.includes(backend as SessionBackend)) {
+    throw new Error(
+      `SESSION_STORAGE must be one of ${SESSION_BACKENDS.join(', ')}`,
+    );
+  }
+  return backend as SessionBackend;
+}
+
+export function getSessionMaxAge(env: Env) {
+  if (!env.SESSION_MAX_AGE) return undefined;
+  const maxAge = Number(env.SESSION_MAX_AGE);
+  if (!Number.isInteger(maxAge) || maxAge <= 0) {
+    throw new Error('SESSION_MAX_AGE must be a positive number of seconds');
+  }
+  return maxAge;
+}
+
+function getSessionKV(env: Env) {
+  const kv = getConfiguredKV(env);
+  if (kv) return kv;
+  throw new Error(
+    'SESSION_STORAGE=kv needs a SESSION_KV binding or SESSION_KV_URL and SESSION_KV_TOKEN',
+  );
+}
+
+// Memory sessions have to outlive the request that created them
+let memoryStorage: SessionStorage | undefined;
+
+/**
+ * The session storage picked by `SESSION_STORAGE`, with sessions that
+ * expire after `SESSION_MAX_AGE` seconds when set.
+ */
+export function getSessionStorage(env: Env, secrets: string[]) {
+  const options = {secrets, maxAge: getSessionMaxAge(env)};
+
+  switch (getSessionBackend(env)) {
+    case 'kv':
+      return createKVSessionStorage(getSessionKV(env), options);
+    case 'memory':
+      memoryStorage ??= createMemorySessionStorage({
+        cookie: createCookie('session', getCookieOptions(options)),
+      });
+      return memoryStorage;
+    default:
+      return createCookieSessionStorage({cookie: getCookieOptions(options)});
+  }
+}
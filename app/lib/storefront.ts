@@ -0,0 +1,222 @@
+import type {Storefront} from '@shopify/hydrogen';
+import {hashString} from '~/lib/hash';
+import type {RequestSummary} from '~/lib/logger';
+
+/**
+ * What the Storefront API cache did for a query. `stale` hits revalidate
+ * in the background; `uncached` covers `CacheNone()` and mutations.
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'uncached';
+
+export type QueryRecord = {
+  // The GraphQL operation name, e.g. `Product`
+  operation: string;
+  type: 'query' | 'mutation';
+  // Tells apart calls of one operation with different variables
+  variablesHash: string;
+  // The cache strategy as a `Cache-Control` value, e.g. `no-store`
+  cacheStrategy: string;
+  cacheStatus: CacheStatus;
+  duration: number;
+};
+
+// Hydrogen does not export its option types, so they are read off the client
+type QueryOptions = NonNullable<Parameters<Storefront['query']>[1]>;
+type MutationOptions = NonNullable<Parameters<Storefront['mutate']>[1]>;
+type CachingStrategy = NonNullable<QueryOptions['cache']>;
+
+// Queries taking longer than this are flagged on `/__debug/queries`
+export const SLOW_QUERY_MS = 500;
+
+export function getQueryWarnings({type, duration, cacheStatus}: QueryRecord) {
+  const warnings: string[] = [];
+  if (duration > SLOW_QUERY_MS) warnings.push('slow');
+  // Mutations can't be cached, so only queries are worth flagging
+  if (type === 'query' && cacheStatus === 'uncached') warnings.push('uncached');
+  return warnings;
+}
+
+// `Product` for `query Product($handle: String!) {...}`
+export function getOperationName(document: string) {
+  return /\b(?:query|mutation)\s+(\w+)/.exec(document)?.[1] ?? 'anonymous';
+}
+
+// Sorts object keys, so equal variables always serialize the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key],
+          )}`,
+      )
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Only meant to group calls, so it need not resist collisions
+export function hashVariables(variables: unknown) {
+  return hashString(stableStringify(variables ?? {}))
+    .toString(16)
+    .padStart(8, '0');
+}
+
+/**
+ * Hydrogen keys its cache by the API URL followed by the request body,
+ * `{"query": ..., "variables": ...}`. Returns the key we use to match a
+ * cache lookup to the query that made it.
+ */
+function getLookupKey(request: RequestInfo | URL) {
+  const url = new URL(request instanceof Request ? request.url : request);
+  const key = decodeURIComponent(url.search.slice(1));
+  const bodyStart = key.indexOf('{"query"');
+  if (bodyStart === -1) return null;
+
+  try {
+    const {query, variables} = JSON.parse(key.slice(bodyStart)) as {
+      query: string;
+      variables?: unknown;
+    };
+    return `${getOperationName(query)}:${hashVariables(variables)}`;
+  } catch {
+    return null;
+  }
+}
+
+function isStale(response: Response) {
+  const putDate = response.headers.get('cache-put-date');
+  const maxAge = /max-age=(\d+)/.exec(
+    response.headers.get('real-cache-control') ?? '',
+  )?.[1];
+  if (!putDate || !maxAge) return false;
+  return (Date.now() - new Date(putDate).getTime()) / 1000 > Number(maxAge);
+}
+
+/**
+ * Records every query and mutation of a Storefront client. Give Hydrogen
+ * the cache from `wrapCache`, then pass the client to `instrument`.
+ */
+export function createQueryRecorder(onQuery: (query: QueryRecord) => void) {
+  // Cache lookups waiting for the query that made them, by lookup key
+  const lookups = new Map<string, CacheStatus[]>();
+
+  const takeCacheStatus = (key: string): CacheStatus => {
+    const statuses = lookups.get(key);
+    const status = statuses?.shift();
+    if (!statuses?.length) lookups.delete(key);
+    // Hydrogen skips the cache for `CacheNone()`
+    return status ?? 'uncached';
+  };
+
+  return {
+    wrapCache(cache: Cache): Cache {
+      return {
+        add: (request) => cache.add(request),
+        addAll: (requests) => cache.addAll(requests),
+        delete: (request, options) => cache.delete(request, options),
+        keys: (request, options) => cache.keys(request, options),
+        matchAll: (request, options) => cache.matchAll(request, options),
+        put: (request, response) => cache.put(request, response),
+        async match(request, options) {
+          const response = await cache.match(request, options);
+          const key = getLookupKey(request);
+          if (key) {
+            let status: CacheStatus = 'miss';
+            if (response) status = isStale(response) ? 'stale' : 'hit';
+            lookups.set(key, [...(lookups.get(key) ?? []), status]);
+          }
+          return response;
+        },
+      };
+    },
+
+    instrument<TStorefront extends Storefront>(storefront: TStorefront) {
+      const {query, mutate, i18n} = storefront;
+
+      // The variables Hydrogen sends, which include the locale when the
+      // document asks for `$country` or `$language`
+      const getVariables = (
+        document: string,
+        options?: QueryOptions | MutationOptions,
+      ) => {
+        const variables: Record<string, unknown> = {...options?.variables};
+        if (i18n && !variables.country && /\$country/.test(document)) {
+          variables.country = i18n.country;
+        }
+        if (i18n && !variables.language && /\$language/.test(document)) {
+          variables.language = i18n.language;
+        }
+        return variables;
+      };
+
+      const record = async <T>(
+        type: QueryRecord['type'],
+        document: string,
+        options: (MutationOptions & {cache?: CachingStrategy}) | undefined,
+        run: () => Promise<T>,
+      ) => {
+        const operation = getOperationName(document);
+        const variablesHash = hashVariables(getVariables(document, options));
+        const cacheStrategy =
+          type === 'mutation'
+            ? 'no-store'
+            : storefront.generateCacheControlHeader(
+                options?.cache ?? storefront.CacheShort(),
+              );
+        const startTime = Date.now();
+
+        try {
+          return await run();
+        } finally {
+          onQuery({
+            operation,
+            type,
+            variablesHash,
+            cacheStrategy,
+            cacheStatus:
+              type === 'mutation'
+                ? 'uncached'
+                : takeCacheStatus(`${operation}:${variablesHash}`),
+            duration: Date.now() - startTime,
+          });
+        }
+      };
+
+      storefront.query = ((document: string, options?: QueryOptions) =>
+        record('query', document, options, () =>
+          query(document, options),
+        )) as typeof query;
+      storefront.mutate = ((document: string, options?: MutationOptions) =>
+        record('mutation', document, options, () =>
+          mutate(document, options),
+        )) as typeof mutate;
+
+      return storefront;
+    },
+  };
+}
+
+// How many requests `/__debug/queries` keeps
+const MAX_RECENT_REQUESTS = 50;
+
+const recentRequests: RequestSummary[] = [];
+
+/**
+ * Keeps a request's queries for `/__debug/queries`. Only called in
+ * development, since the list lives in this server's memory.
+ */
+export function recordRequestQueries(request: RequestSummary) {
+  recentRequests.unshift(request);
+  recentRequests.length = Math.min(recentRequests.length, MAX_RECENT_REQUESTS);
+}
+
+// Newest first
+export function getRecentRequests() {
+  return recentRequests;
+}
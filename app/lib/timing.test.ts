@@ -0,0 +1,96 @@
+import {describe, expect, it} from 'vitest';
+import {
+  DEFAULT_BUDGET,
+  formatServerTiming,
+  getBudget,
+  getExceededBudgets,
+  parseBudgets,
+} from './timing';
+
+describe('parseBudgets', () => {
+  it('reads budgets by route id', () => {
+    expect(
+      parseBudgets('{"root": {"loader": 300}, "routes/x": {"total": 1.5}}'),
+    ).toEqual({root: {loader: 300}, 'routes/x': {total: 1.5}});
+    expect(parseBudgets('{}')).toEqual({});
+    expect(parseBudgets('{"root": {}}')).toEqual({root: {}});
+  });
+
+  it('rejects text that is not JSON', () => {
+    for (const value of ['', '{root: 300}', '{"root": {"loader": 300}']) {
+      expect(() => parseBudgets(value)).toThrow('must be JSON');
+    }
+  });
+
+  it('rejects JSON that is not budgets by route id', () => {
+    for (const value of [
+      'null',
+      '300',
+      '"root"',
+      '[{"loader": 300}]',
+      '{"root": 300}',
+      '{"root": null}',
+      '{"root": [300]}',
+      '{"root": {"database": 300}}',
+      '{"root": {"loader": "300"}}',
+      '{"root": {"loader": 0}}',
+      '{"root": {"loader": -50}}',
+    ]) {
+      expect(() => parseBudgets(value)).toThrow(
+        'must map route ids to budgets in milliseconds for loader, storefront, render, total',
+      );
+    }
+  });
+});
+
+describe('getBudget', () => {
+  it('uses the default budget outside of a route', () => {
+    expect(getBudget(null, {root: {loader: 1}})).toBe(DEFAULT_BUDGET);
+  });
+
+  it('applies route budgets, then overrides, over the default', () => {
+    expect(getBudget('routes/($locale).unknown')).toEqual(DEFAULT_BUDGET);
+    expect(getBudget('root')).toEqual({
+      ...DEFAULT_BUDGET,
+      loader: 200,
+      storefront: 150,
+    });
+    expect(getBudget('root', {root: {loader: 250, render: 50}})).toEqual({
+      ...DEFAULT_BUDGET,
+      loader: 250,
+      storefront: 150,
+      render: 50,
+    });
+  });
+});
+
+describe('getExceededBudgets', () => {
+  it('lists the phases over budget, in order', () => {
+    expect(
+      getExceededBudgets(
+        {loader: 600, storefront: 100, render: 250, total: 1000},
+        DEFAULT_BUDGET,
+      ),
+    ).toEqual([
+      {metric: 'loader', duration: 600, budget: 500},
+      {metric: 'render', duration: 250, budget: 200},
+    ]);
+  });
+
+  it('skips phases that were not timed or have no budget', () => {
+    expect(getExceededBudgets({total: 5000}, {loader: 1})).toEqual([]);
+    expect(getExceededBudgets({}, DEFAULT_BUDGET)).toEqual([]);
+  });
+});
+
+describe('formatServerTiming', () => {
+  it('lists the timed phases in order', () => {
+    expect(formatServerTiming({total: 180, loader: 120})).toBe(
+      'loader;desc="Loaders";dur=120, total;desc="Total";dur=180',
+    );
+    expect(formatServerTiming({storefront: 0})).toBe(
+      'storefront;desc="Storefront API";dur=0',
+    );
+    expect(formatServerTiming({})).toBe('');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * The phases of a request reported in `Server-Timing`. Queries run in
+ * parallel, so `storefront` is a sum that can exceed `loader`.
+ */
+export type TimingName = 'loader' | 'storefront' | 'render' | 'total';
+
+export type Timings = Partial<Record<TimingName, number>>;
+
+export const TIMING_NAMES: TimingName[] = [
+  'loader',
+  'storefront',
+  'render',
+  'total',
+];
+
+const TIMING_DESCRIPTIONS: Record<TimingName, string> = {
+  loader: 'Loaders',
+  storefront: 'Storefront API',
+  render: 'Render',
+  total: 'Total',
+};
+
+// `loader;desc="Loaders";dur=120, total;desc="Total";dur=180`
+export function formatServerTiming(timings: Timings) {
+  return TIMING_NAMES.filter((name) => timings[name] !== undefined)
+    .map(
+      (name) =>
+        `${name};desc="${TIMING_DESCRIPTIONS[name]}";dur=${timings[name]}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Milliseconds a request may spend per phase before a warning is logged.
+ */
+export type PerformanceBudget = Timings;
+
+export const DEFAULT_BUDGET: PerformanceBudget = {
+  loader: 500,
+  storefront: 400,
+  render: 200,
+  total: 1000,
+};
+
+/**
+ * Budgets by route id that differ from `DEFAULT_BUDGET`, for the route a
+ * request ended up at. `PERFORMANCE_BUDGETS` overrides them.
+ */
+export const ROUTE_BUDGETS: Record<string, PerformanceBudget> = {
+  // Every page waits on the root loader, so it has to stay quick
+  root: {loader: 200, storefront: 150},
+  'routes/($locale)._index': {loader: 300},
+  'routes/($locale).products.$handle': {loader: 400},
+  'routes/($locale).search': {loader: 800, storefront: 700, total: 1200},
+};
+
+function isBudget(value: unknown): value is PerformanceBudget {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    Object.entries(value).every(
+      ([name, budget]) =>
+        TIMING_NAMES.includes(name as TimingName) &&
+        typeof budget === 'number' &&
+        budget > 0,
+    )
+  );
+}
+
+/**
+ * Reads `PERFORMANCE_BUDGETS`, a JSON object of budgets by route id such
+ * as `{"root": {"loader": 300}}`. Throws when it is not one.
+ */
+export function parseBudgets(value: string) {
+  let budgets: unknown;
+  try {
+    budgets = JSON.parse(value);
+  } catch {
+    throw new Error('must be JSON');
+  }
+
+  if (
+    !budgets ||
+    typeof budgets !== 'object' ||
+    Array.isArray(budgets) ||
+    !Object.values(budgets).every(isBudget)
+  ) {
+    throw new Error(
+      `must map route ids to budgets in milliseconds for ${TIMING_NAMES.join(
+        ', ',
+      )}`,
+    );
+  }
+
+  return budgets as Record<string, PerformanceBudget>;
+}
+
+export function getBudget(
+  route: string | null,
+  overrides: Record<string, PerformanceBudget> = {},
+): PerformanceBudget {
+  if (!route) return DEFAULT_BUDGET;
+  return {...DEFAULT_BUDGET, ...ROUTE_BUDGETS[route], ...overrides[route]};
+}
+
+export type ExceededBudget = {
+  metric: TimingName;
+  duration: number;
+  budget: number;
+};
+
+export function getExceededBudgets(
+  timings: Timings,
+  budget: PerformanceBudget,
+) {
+  return TIMING_NAMES.flatMap((metric): ExceededBudget[] => {
+    const duration = timings[metric];
+    const limit = budget[metric];
+    return duration !== undefined && limit !== undefined && duration > limit
+      ? [{metric, duration, budget: limit}]
+      : [];
+  });
+}
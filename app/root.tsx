@@ -12,6 +12,8 @@ import {
 } from '@remix-run/react';
 import type {CustomerAccessToken} from '@shopify/hydrogen-react/storefront-api-types';
 import type {HydrogenSession} from '../server';
+import {useEffect} from 'react';
+import {reportClientError} from '~/lib/errorReporter';
 import favicon from '../public/favicon.svg';
 import resetStyles from './styles/reset.css';
 import appStyles from './styles/app.css';
@@ -72,6 +74,8 @@ export async function loader({context}: LoaderArgs) {
       header: await headerPromise,
       isLoggedIn,
       publicStoreDomain,
+      selectedLocale: storefront.i18n,
+      requestId: context.logger.requestId,
     },
     {headers},
   );
@@ -81,7 +85,7 @@ export default function App() {
   const data = useLoaderData<typeof loader>();
 
   return (
-    <html lang="en">
+    <html lang={data.selectedLocale.language.toLowerCase()}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width,initial-scale=1" />
@@ -102,6 +106,7 @@ export default function App() {
 export function ErrorBoundary() {
   const error = useRouteError();
   const [root] = useMatches();
+  const language = root.data?.selectedLocale?.language ?? 'EN';
   let errorMessage = 'Unknown error';
   let errorStatus = 500;
 
@@ -112,8 +117,17 @@ export function ErrorBoundary() {
     errorMessage = error.message;
   }
 
+  // Responses thrown on purpose, such as 404s, are not errors to report.
+  // Errors from loaders were reported by the server as well, under the
+  // same request ID.
+  const isUnexpected = !isRouteErrorResponse(error) || error.status >= 500;
+  const requestId = root.data?.requestId;
+  useEffect(() => {
+    if (isUnexpected) reportClientError(error, requestId);
+  }, [error, isUnexpected, requestId]);
+
   return (
-    <html lang="en">
+    <html lang={language.toLowerCase()}>
       <head>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width,initial-scale=1" />
@@ -1,6 +1,7 @@
 import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {defer, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Await, useLoaderData, Link} from '@remix-run/react';
+import {Await, useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Suspense} from 'react';
 import {Image, Money} from '@shopify/hydrogen';
 import type {
@@ -3,7 +3,7 @@ import {redirect} from '@shopify/remix-oxygen';
 
 export async function loader({context}: LoaderArgs) {
   if (await context.session.get('customerAccessToken')) {
-    return redirect('/account');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account`);
   }
-  return redirect('/account/login');
+  return redirect(`${context.storefront.i18n.pathPrefix}/account/login`);
 }
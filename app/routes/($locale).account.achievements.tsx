@@ -0,0 +1,85 @@
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
+import {
+  json,
+  redirect,
+  type LoaderArgs,
+  type V2_MetaFunction,
+} from '@shopify/remix-oxygen';
+import {Badge} from '~/components/ui/badge';
+import {getCustomerId} from '~/lib/customer';
+import {getKV} from '~/lib/kv';
+import {
+  ACHIEVEMENTS,
+  ACHIEVEMENT_IDS,
+  loadAchievements,
+} from '~/lib/match/achievements';
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: 'Achievements'}];
+};
+
+export async function loader({context}: LoaderArgs) {
+  const {session, storefront, env} = context;
+
+  const customerId = await getCustomerId(storefront, session);
+  if (!customerId) {
+    return redirect(`${storefront.i18n.pathPrefix}/account/login`);
+  }
+
+  const record = await loadAchievements(getKV(env), customerId);
+
+  return json({
+    achievements: ACHIEVEMENT_IDS.map((id) => ({
+      id,
+      ...ACHIEVEMENTS[id],
+      unlockedAt: record?.[id] ?? null,
+    })),
+  });
+}
+
+export default function Achievements() {
+  const {achievements} = useLoaderData<typeof loader>();
+  const unlockedCount = achievements.filter(
+    ({unlockedAt}) => unlockedAt,
+  ).length;
+
+  return (
+    <div className="account-achievements">
+      <h2>
+        Achievements{' '}
+        <small>
+          ({unlockedCount} of {achievements.length})
+        </small>
+      </h2>
+      <br />
+      {unlockedCount === 0 && (
+        <p>
+          Win a game of <Link to="/match">Cat Sort</Link> to earn your first
+          badge.
+        </p>
+      )}
+      <ul className="flex flex-col gap-3">
+        {achievements.map(({id, name, description, unlockedAt}) => (
+          <li key={id} className="flex items-center gap-3">
+            <Badge
+              variant={unlockedAt ? 'default' : 'outline'}
+              className={unlockedAt ? undefined : 'opacity-50'}
+            >
+              {name}
+            </Badge>
+            <span className="text-sm">
+              {description}
+              {unlockedAt && (
+                <small className="text-gray-500">
+                  {' '}
+                  &middot; unlocked {new Date(unlockedAt).toLocaleDateString()}
+                </small>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
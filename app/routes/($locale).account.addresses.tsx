@@ -28,10 +28,10 @@ export const meta: V2_MetaFunction = () => {
 };
 
 export async function loader({context}: LoaderArgs) {
-  const {session} = context;
+  const {session, storefront} = context;
   const customerAccessToken = await session.get('customerAccessToken');
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(`${storefront.i18n.pathPrefix}/account/login`);
   }
   return json({});
 }
@@ -1,5 +1,6 @@
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Link, useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {useLoaderData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Money, Image, flattenConnection} from '@shopify/hydrogen';
 import type {OrderLineItemFullFragment} from 'storefrontapi.generated';
 
@@ -11,14 +12,14 @@ export async function loader({params, context}: LoaderArgs) {
   const {session, storefront} = context;
 
   if (!params.id) {
-    return redirect('/account/orders');
+    return redirect(`${storefront.i18n.pathPrefix}/account/orders`);
   }
 
   const orderId = atob(params.id);
   const customerAccessToken = await session.get('customerAccessToken');
 
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(`${storefront.i18n.pathPrefix}/account/login`);
   }
 
   const {order} = await storefront.query(CUSTOMER_ORDER_QUERY, {
@@ -1,4 +1,5 @@
-import {Link, useLoaderData} from '@remix-run/react';
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Money, Pagination, getPaginationVariables} from '@shopify/hydrogen';
 import {
   json,
@@ -20,7 +21,7 @@ export async function loader({request, context}: LoaderArgs) {
 
   const customerAccessToken = await session.get('customerAccessToken');
   if (!customerAccessToken?.accessToken) {
-    return redirect('/account/login');
+    return redirect(`${storefront.i18n.pathPrefix}/account/login`);
   }
 
   try {
@@ -21,7 +21,7 @@ export const meta: V2_MetaFunction = () => {
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (!customerAccessToken) {
-    return redirect('/account/login');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account/login`);
   }
   return json({});
 }
@@ -1,6 +1,8 @@
-import {Form, NavLink, Outlet, useLoaderData} from '@remix-run/react';
+import {Form, Outlet, useLoaderData} from '@remix-run/react';
+import {NavLink, useLocalizedPath} from '~/components/Link';
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
 import type {CustomerFragment} from 'storefrontapi.generated';
+import {stripLocalePrefix} from '~/lib/i18n';
 
 export function shouldRevalidate() {
   return true;
@@ -8,19 +10,19 @@ export function shouldRevalidate() {
 
 export async function loader({request, context}: LoaderArgs) {
   const {session, storefront} = context;
-  const {pathname} = new URL(request.url);
+  const pathname = stripLocalePrefix(new URL(request.url).pathname);
   const customerAccessToken = await session.get('customerAccessToken');
   const isLoggedIn = Boolean(customerAccessToken?.accessToken);
   const isAccountHome = pathname === '/account' || pathname === '/account/';
   const isPrivateRoute =
-    /^\/account\/(orders|orders\/.*|profile|addresses|addresses\/.*)$/.test(
+    /^\/account\/(orders|orders\/.*|profile|addresses|addresses\/.*|achievements)$/.test(
       pathname,
     );
 
   if (!isLoggedIn) {
     if (isPrivateRoute || isAccountHome) {
       session.unset('customerAccessToken');
-      return redirect('/account/login', {
+      return redirect(`${storefront.i18n.pathPrefix}/account/login`, {
         headers: {
           'Set-Cookie': await session.commit(),
         },
@@ -37,7 +39,7 @@ export async function loader({request, context}: LoaderArgs) {
   } else {
     // loggedIn, default redirect to the orders page
     if (isAccountHome) {
-      return redirect('/account/orders');
+      return redirect(`${storefront.i18n.pathPrefix}/account/orders`);
     }
   }
 
@@ -67,7 +69,7 @@ export async function loader({request, context}: LoaderArgs) {
     // eslint-disable-next-line no-console
     console.error('There was a problem loading account', error);
     session.unset('customerAccessToken');
-    return redirect('/account/login', {
+    return redirect(`${storefront.i18n.pathPrefix}/account/login`, {
       headers: {
         'Set-Cookie': await session.commit(),
       },
@@ -142,14 +144,20 @@ function AcccountMenu() {
         &nbsp; Addresses &nbsp;
       </NavLink>
       &nbsp;|&nbsp;
+      <NavLink to="/account/achievements" style={isActiveStyle}>
+        &nbsp; Achievements &nbsp;
+      </NavLink>
+      &nbsp;|&nbsp;
       <Logout />
     </nav>
   );
 }
 
 function Logout() {
+  const logoutPath = useLocalizedPath('/account/logout');
+
   return (
-    <Form className="account-logout" method="POST" action="/account/logout">
+    <Form className="account-logout" method="POST" action={logoutPath}>
       &nbsp;<button type="submit">Sign out</button>
     </Form>
   );
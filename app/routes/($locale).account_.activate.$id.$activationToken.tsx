@@ -12,7 +12,7 @@ export const meta: V2_MetaFunction = () => {
 
 export async function loader({context}: LoaderArgs) {
   if (await context.session.get('customerAccessToken')) {
-    return redirect('/account');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account`);
   }
   return json({});
 }
@@ -64,9 +64,10 @@ export async function action({request, context, params}: ActionArgs) {
     if (!customerAccessToken) {
       throw new Error('Could not activate account.');
     }
+    await session.rotate();
     session.set('customerAccessToken', customerAccessToken);
 
-    return redirect('/account', {
+    return redirect(`${storefront.i18n.pathPrefix}/account`, {
       headers: {
         'Set-Cookie': await session.commit(),
       },
@@ -5,7 +5,8 @@ import {
   type LoaderArgs,
   type V2_MetaFunction,
 } from '@shopify/remix-oxygen';
-import {Form, Link, useActionData} from '@remix-run/react';
+import {Form, useActionData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 
 type ActionResponse = {
   error: string | null;
@@ -17,7 +18,7 @@ export const meta: V2_MetaFunction = () => {
 
 export async function loader({context}: LoaderArgs) {
   if (await context.session.get('customerAccessToken')) {
-    return redirect('/account');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account`);
   }
   return json({});
 }
@@ -53,9 +54,10 @@ export async function action({request, context}: ActionArgs) {
     }
 
     const {customerAccessToken} = customerAccessTokenCreate;
+    await session.rotate();
     session.set('customerAccessToken', customerAccessToken);
 
-    return redirect('/account', {
+    return redirect(`${storefront.i18n.pathPrefix}/account`, {
       headers: {
         'Set-Cookie': await session.commit(),
       },
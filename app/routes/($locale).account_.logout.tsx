@@ -2,6 +2,7 @@ import {
   json,
   redirect,
   type ActionArgs,
+  type LoaderArgs,
   type V2_MetaFunction,
 } from '@shopify/remix-oxygen';
 
@@ -9,19 +10,19 @@ export const meta: V2_MetaFunction = () => {
   return [{title: 'Logout'}];
 };
 
-export async function loader() {
-  return redirect('/account/login');
+export async function loader({context}: LoaderArgs) {
+  return redirect(`${context.storefront.i18n.pathPrefix}/account/login`);
 }
 
 export async function action({request, context}: ActionArgs) {
-  const {session} = context;
+  const {session, storefront} = context;
   session.unset('customerAccessToken');
 
   if (request.method !== 'POST') {
     return json({error: 'Method not allowed'}, {status: 405});
   }
 
-  return redirect('/', {
+  return redirect(storefront.i18n.pathPrefix || '/', {
     headers: {
       'Set-Cookie': await session.commit(),
     },
@@ -1,5 +1,6 @@
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Form, Link, useActionData} from '@remix-run/react';
+import {Form, useActionData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 
 type ActionResponse = {
   error?: string;
@@ -9,7 +10,7 @@ type ActionResponse = {
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (customerAccessToken) {
-    return redirect('/account');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account`);
   }
 
   return json({});
@@ -4,7 +4,8 @@ import {
   type ActionFunction,
   type LoaderArgs,
 } from '@shopify/remix-oxygen';
-import {Form, Link, useActionData} from '@remix-run/react';
+import {Form, useActionData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import type {CustomerCreateMutation} from 'storefrontapi.generated';
 
 type ActionResponse = {
@@ -17,7 +18,7 @@ type ActionResponse = {
 export async function loader({context}: LoaderArgs) {
   const customerAccessToken = await context.session.get('customerAccessToken');
   if (customerAccessToken) {
-    return redirect('/account');
+    return redirect(`${context.storefront.i18n.pathPrefix}/account`);
   }
 
   return json({});
@@ -80,6 +81,7 @@ export const action: ActionFunction = async ({request, context}) => {
     if (!customerAccessTokenCreate?.customerAccessToken?.accessToken) {
       throw new Error('Missing access token');
     }
+    await session.rotate();
     session.set(
       'customerAccessToken',
       customerAccessTokenCreate?.customerAccessToken,
@@ -91,7 +93,7 @@ export const action: ActionFunction = async ({request, context}) => {
         status: 302,
         headers: {
           'Set-Cookie': await session.commit(),
-          Location: '/account',
+          Location: `${storefront.i18n.pathPrefix}/account`,
         },
       },
     );
@@ -1,5 +1,6 @@
 import {type ActionArgs, json, redirect} from '@shopify/remix-oxygen';
 import {Form, useActionData, type V2_MetaFunction} from '@remix-run/react';
+import {Link} from '~/components/Link';
 
 type ActionResponse = {
   error: string | null;
@@ -45,9 +46,10 @@ export async function action({request, context, params}: ActionArgs) {
     if (!customerReset?.customerAccessToken) {
       throw new Error('Access token not found. Please try again.');
     }
+    await session.rotate();
     session.set('customerAccessToken', customerReset.customerAccessToken);
 
-    return redirect('/account', {
+    return redirect(`${storefront.i18n.pathPrefix}/account`, {
       headers: {
         'Set-Cookie': await session.commit(),
       },
@@ -107,7 +109,7 @@ export default function Reset() {
       </Form>
       <br />
       <p>
-        <a href="/account/login">Back to login →</a>
+        <Link to="/account/login">Back to login →</Link>
       </p>
     </div>
   );
@@ -0,0 +1,24 @@
+import {json, type ActionArgs} from '@shopify/remix-oxygen';
+import {parseClientError} from '~/lib/errorReporter';
+
+/**
+ * Receives errors the root `ErrorBoundary` caught in the browser and
+ * hands them to the error reporter.
+ */
+export async function action({request, context}: ActionArgs) {
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  try {
+    const {error, ...errorContext} = parseClientError(await request.json());
+    await context.reporter.report(error, errorContext);
+
+    return json({error: null});
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      return json({error: error.message}, {status: 400});
+    }
+    return json({error}, {status: 400});
+  }
+}
@@ -0,0 +1,43 @@
+import {json, type ActionArgs} from '@shopify/remix-oxygen';
+import {
+  type EventBatch,
+  getAnalyticsSink,
+  parseEventBatch,
+} from '~/lib/match/analytics';
+
+/**
+ * Receives batches of Cat Sort analytics events from `AnalyticsClient`
+ * and hands them to the analytics sink.
+ */
+export async function action({request, context}: ActionArgs) {
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  let batch: EventBatch;
+  try {
+    batch = parseEventBatch(await request.json());
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      return json({error: error.message}, {status: 400});
+    }
+    return json({error}, {status: 400});
+  }
+
+  const {sessionId, events} = batch;
+  const receivedAt = new Date().toISOString();
+
+  try {
+    await getAnalyticsSink().write(
+      events.map((event) => ({...event, sessionId, receivedAt})),
+    );
+  } catch (error: unknown) {
+    // The batch was fine, so the client is told it was the server's fault
+    context.logger.error('Could not record analytics events', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json({error: 'Could not record analytics events'}, {status: 500});
+  }
+
+  return json({error: null});
+}
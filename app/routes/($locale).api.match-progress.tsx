@@ -0,0 +1,35 @@
+import {json, type ActionArgs} from '@shopify/remix-oxygen';
+import {getCustomerId} from '~/lib/customer';
+import {getKV} from '~/lib/kv';
+import {parseSavedGame, saveCustomerGame} from '~/lib/match/progress';
+
+/**
+ * Saves (POST) or clears (DELETE) the unfinished Cat Sort game of a
+ * logged-in customer. Guests keep their game in localStorage instead.
+ */
+export async function action({request, context}: ActionArgs) {
+  const {session, storefront, env} = context;
+
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  const customerId = await getCustomerId(storefront, session);
+  if (!customerId) {
+    return json({error: 'Unauthorized'}, {status: 401});
+  }
+
+  // Moves are only replayed when the game is restored, not on every save
+  const savedGame =
+    request.method === 'POST' ? parseSavedGame(await request.text()) : null;
+  if (request.method === 'POST' && !savedGame) {
+    return json({error: 'Invalid saved game'}, {status: 400});
+  }
+
+  const saved = await saveCustomerGame(getKV(env), customerId, savedGame);
+  if (!saved) {
+    return json({error: 'A newer game is already saved'}, {status: 409});
+  }
+
+  return json({error: null});
+}
@@ -0,0 +1,107 @@
+import {json, type ActionArgs, type LoaderArgs} from '@shopify/remix-oxygen';
+import {getKV} from '~/lib/kv';
+import {
+  type RaceMessage,
+  createKVTransport,
+  parseRaceMessage,
+} from '~/lib/match/race';
+import {isValidSeed} from '~/lib/match/random';
+
+// Comment sent now and then so proxies keep an idle stream open
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+/**
+ * Streams the messages of a race room, `?room=…`, as server-sent events.
+ */
+export async function loader({request, context}: LoaderArgs) {
+  const roomId = new URL(request.url).searchParams.get('room');
+
+  if (!isValidSeed(roomId)) {
+    return json({error: 'Invalid race room'}, {status: 400});
+  }
+
+  const transport = createKVTransport(getKV(context.env), roomId);
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          stop();
+        }
+      };
+
+      const unsubscribe = transport.subscribe((message: RaceMessage) => {
+        write(`data: ${JSON.stringify(message)}\n\n`);
+      });
+      const keepAlive = setInterval(
+        () => write(': keep-alive\n\n'),
+        KEEP_ALIVE_INTERVAL,
+      );
+
+      stop = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        transport.close();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-store',
+      Connection: 'keep-alive',
+    },
+  });
+}
+
+/**
+ * Publishes a message (POST) to everyone in the race room `?room=…`.
+ */
+export async function action({request, context}: ActionArgs) {
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  const roomId = new URL(request.url).searchParams.get('room');
+
+  let message: RaceMessage;
+  try {
+    if (!isValidSeed(roomId)) {
+      throw new Error('Invalid race room');
+    }
+    message = parseRaceMessage(await request.text());
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      return json({error: error.message}, {status: 400});
+    }
+    return json({error}, {status: 400});
+  }
+
+  try {
+    await createKVTransport(getKV(context.env), roomId).send(message);
+  } catch (error: unknown) {
+    context.logger.error('Could not publish a race message', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return json({error: 'Could not publish a race message'}, {status: 500});
+  }
+
+  return json({error: null});
+}
@@ -1,6 +1,7 @@
 import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Link, useLoaderData} from '@remix-run/react';
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {Image, Pagination, getPaginationVariables} from '@shopify/hydrogen';
 import type {ArticleItemFragment} from 'storefrontapi.generated';
 
@@ -107,13 +108,14 @@ function ArticleItem({
 // NOTE: https://shopify.dev/docs/api/storefront/latest/objects/blog
 const BLOGS_QUERY = `#graphql
   query Blog(
+    $country: CountryCode
     $language: LanguageCode
     $blogHandle: String!
     $first: Int
     $last: Int
     $startCursor: String
     $endCursor: String
-  ) @inContext(language: $language) {
+  ) @inContext(country: $country, language: $language) {
     blog(handle: $blogHandle) {
       title
       seo {
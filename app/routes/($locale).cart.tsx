@@ -6,6 +6,7 @@ import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {type ActionArgs, json} from '@shopify/remix-oxygen';
 import type {CartApiQueryFragment} from 'storefrontapi.generated';
 import {CartMain} from '~/components/Cart';
+import {updateDiscountCodes} from '~/lib/cart';
 
 export const meta: V2_MetaFunction = () => {
   return [{title: `Hydrogen | Cart`}];
@@ -49,7 +50,7 @@ export async function action({request, context}: ActionArgs) {
       // Combine discount codes already applied on cart
       discountCodes.push(...inputs.discountCodes);
 
-      result = await cart.updateDiscountCodes(discountCodes);
+      result = await updateDiscountCodes(cart, discountCodes);
       break;
     }
     case CartForm.ACTIONS.BuyerIdentityUpdate: {
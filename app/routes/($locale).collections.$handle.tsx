@@ -1,6 +1,7 @@
 import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {json, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
-import {useLoaderData, Link} from '@remix-run/react';
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {
   Pagination,
   getPaginationVariables,
@@ -22,7 +23,7 @@ export async function loader({request, params, context}: LoaderArgs) {
   });
 
   if (!handle) {
-    return redirect('/collections');
+    return redirect(`${storefront.i18n.pathPrefix}/collections`);
   }
 
   const {collection} = await storefront.query(COLLECTION_QUERY, {
@@ -0,0 +1,50 @@
+import {json, redirect, type ActionArgs} from '@shopify/remix-oxygen';
+import {
+  findLocale,
+  localizePath,
+  serializeLocaleCookie,
+  stripLocalePrefix,
+} from '~/lib/i18n';
+
+/**
+ * Switches the storefront to the locale picked in the country selector:
+ * remembers it in a cookie, moves an existing cart to its country and
+ * sends the visitor to the same page under the locale's prefix.
+ */
+export async function action({request, context}: ActionArgs) {
+  const {cart, session} = context;
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  const form = await request.formData();
+  const locale = findLocale(form.get('locale'));
+  const redirectTo = form.get('redirectTo');
+
+  if (!locale) {
+    return json({error: 'Unknown locale'}, {status: 400});
+  }
+
+  // Only app paths, so the form cannot be used to redirect elsewhere
+  const path =
+    typeof redirectTo === 'string' && /^\/(?!\/)/.test(redirectTo)
+      ? stripLocalePrefix(redirectTo)
+      : '/';
+  const headers = new Headers();
+
+  if (cart.getCartId()) {
+    const customerAccessToken = await session.get('customerAccessToken');
+    const result = await cart.updateBuyerIdentity({
+      countryCode: locale.country,
+      customerAccessToken: customerAccessToken?.accessToken,
+    });
+    cart.setCartId(result.cart.id).forEach((value, key) => {
+      headers.append(key, value);
+    });
+  }
+
+  headers.append('Set-Cookie', serializeLocaleCookie(locale));
+
+  return redirect(localizePath(locale, path), {headers});
+}
@@ -0,0 +1,591 @@
+import {useEffect, useState} from 'react';
+import {useFetcher, useLoaderData, useSearchParams} from '@remix-run/react';
+import {Link, useLocalizedPath} from '~/components/Link';
+import {CatSort} from '~/components/match/CatSort';
+import {AdoptCats} from '~/components/match/AdoptCats';
+import {SubmitScore} from '~/components/match/SubmitScore';
+import {
+  json,
+  type ActionArgs,
+  type LoaderArgs,
+  V2_MetaFunction,
+} from '@shopify/remix-oxygen';
+import confetti from 'canvas-confetti';
+import {
+  type Cat,
+  type Difficulty,
+  type GameState,
+  type Move,
+  DIFFICULTY_CONFIG,
+  isDifficulty,
+  parseMoves,
+} from '~/lib/match/engine';
+import {verifySolution} from '~/lib/match/puzzle';
+import {
+  claimReward,
+  getPar,
+  getRewardConfig,
+  isUnderPar,
+  releaseReward,
+} from '~/lib/match/reward';
+import {updateDiscountCodes} from '~/lib/cart';
+import {getCustomerId} from '~/lib/customer';
+import {getKV} from '~/lib/kv';
+import {createSeed, isValidSeed} from '~/lib/match/random';
+import {getMatchCats} from '~/lib/match/cats';
+import {
+  DAILY_SESSION_KEY,
+  type DailyRecord,
+  getCurrentStreak,
+  getDailyChallenge,
+  getDailySeed,
+  recordDailyResult,
+} from '~/lib/match/daily';
+import {
+  type SavedGame,
+  RemoteGameSaver,
+  hasCustomerTakenBack,
+  loadCustomerGame,
+  loadLocalGame,
+  saveLocalGame,
+} from '~/lib/match/progress';
+import {type GameMode, isGameMode} from '~/lib/match/modes';
+import {getLevel, getLevelPack} from '~/lib/match/levels';
+import {createReplay, downloadReplay} from '~/lib/match/replay';
+import {AnalyticsClient} from '~/lib/match/analytics';
+import {
+  ACHIEVEMENTS,
+  type AchievementId,
+  getEarnedAchievements,
+  hasReversedMove,
+  loadAchievements,
+  saveAchievements,
+  unlockAchievements,
+} from '~/lib/match/achievements';
+import {Badge} from '~/components/ui/badge';
+import {Button} from '~/components/ui/button';
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: `Hydrogen | Match`}];
+};
+
+/**
+ * Reads the board to deal from `?seed=…&difficulty=…`. Visiting without a
+ * seed deals a fresh one, so every board can be shared or bug-reported.
+ * `?play=timeAttack` or `?play=par` picks a mode other than classic.
+ * `?mode=daily` deals the shared board of the day instead, and
+ * `?level=…` a level of the bundled level pack.
+ */
+export async function loader({request, context}: LoaderArgs) {
+  const {session, storefront, env} = context;
+  const {searchParams} = new URL(request.url);
+  const [customerAccessToken, cats] = await Promise.all([
+    session.get('customerAccessToken'),
+    getMatchCats(storefront, env.MATCH_CATS_COLLECTION),
+  ]);
+  const isLoggedIn = Boolean(customerAccessToken?.accessToken);
+  const rewardsEnabled = Boolean(getRewardConfig(env));
+  const levelPack = getLevelPack();
+  const shared = {
+    cats,
+    isLoggedIn,
+    rewardsEnabled,
+    levelPack: {
+      name: levelPack.name,
+      levels: levelPack.levels.map(({id, name}) => ({id, name})),
+    },
+  };
+
+  if (searchParams.get('mode') === 'daily') {
+    const {day, difficulty, puzzle} = getDailyChallenge(cats);
+    const record: DailyRecord | undefined = await session.get(
+      DAILY_SESSION_KEY,
+    );
+    const result = record?.lastResult?.day === day ? record.lastResult : null;
+
+    return json({
+      seed: getDailySeed(day),
+      difficulty,
+      mode: 'classic' as GameMode,
+      daily: {
+        day,
+        optimalMoves: puzzle.optimalMoves,
+        result,
+        streak: getCurrentStreak(record, day),
+      },
+      level: null,
+      savedGame: null,
+      ...shared,
+    });
+  }
+
+  const level = getLevel(searchParams.get('level'));
+
+  if (level) {
+    return json({
+      seed: level.seed,
+      difficulty: 'medium' as Difficulty,
+      mode: 'classic' as GameMode,
+      daily: null,
+      level,
+      savedGame: null,
+      ...shared,
+    });
+  }
+
+  const seedParam = searchParams.get('seed');
+  const difficultyParam = searchParams.get('difficulty');
+  const modeParam = searchParams.get('play');
+
+  const seed = isValidSeed(seedParam) ? seedParam : createSeed();
+  const difficulty: Difficulty = isDifficulty(difficultyParam)
+    ? difficultyParam
+    : 'medium';
+  const mode: GameMode = isGameMode(modeParam) ? modeParam : 'classic';
+
+  // Guests keep their unfinished game in localStorage instead
+  const customerId = isLoggedIn
+    ? await getCustomerId(storefront, session)
+    : null;
+  const savedGame = customerId
+    ? await loadCustomerGame(getKV(env), customerId, cats)
+    : null;
+
+  return json({
+    seed,
+    difficulty,
+    mode,
+    daily: null,
+    level: null,
+    savedGame,
+    ...shared,
+  });
+}
+
+/**
+ * Receives a finished game. The move list is replayed against the board
+ * dealt from the submitted seed, so only genuine solutions count: a win on
+ * today's daily board extends the streak, a win within par applies the
+ * reward discount code to the cart once per board, and logged-in customers
+ * unlock achievements.
+ */
+export async function action({request, context}: ActionArgs) {
+  const {session, storefront, cart, env} = context;
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed'}, {status: 405});
+  }
+
+  try {
+    const [form, cats] = await Promise.all([
+      request.formData(),
+      getMatchCats(storefront, env.MATCH_CATS_COLLECTION),
+    ]);
+    const seed = form.get('seed');
+    const difficulty = form.get('difficulty');
+    const moves = parseMoves(form.get('moves'));
+
+    if (!isValidSeed(seed) || !isDifficulty(difficulty)) {
+      throw new Error('Invalid Cat Sort board');
+    }
+
+    const puzzle = verifySolution(
+      cats,
+      DIFFICULTY_CONFIG[difficulty],
+      seed,
+      moves,
+    );
+    const headers = new Headers();
+    const par = getPar(puzzle.optimalMoves);
+
+    let streak: number | null = null;
+    const challenge = getDailyChallenge(cats);
+    if (seed === challenge.puzzle.seed) {
+      const record: DailyRecord | undefined = await session.get(
+        DAILY_SESSION_KEY,
+      );
+      const nextRecord = recordDailyResult(record, challenge, moves);
+      session.set(DAILY_SESSION_KEY, nextRecord);
+      streak = nextRecord.streak;
+    }
+
+    let achievements: AchievementId[] = [];
+    const customerId = await getCustomerId(storefront, session);
+
+    if (customerId) {
+      const kv = getKV(env);
+      const tookBack =
+        hasReversedMove(moves) ||
+        (await hasCustomerTakenBack(kv, customerId, {
+          seed,
+          difficulty,
+          moves,
+        }));
+      const {record, unlocked} = unlockAchievements(
+        await loadAchievements(kv, customerId),
+        getEarnedAchievements({
+          difficulty,
+          moves: moves.length,
+          optimalMoves: puzzle.optimalMoves,
+          tookBack,
+          streak,
+        }),
+      );
+      if (unlocked.length) await saveAchievements(kv, customerId, record);
+      achievements = unlocked;
+    }
+
+    let reward: string | null = null;
+    const rewardConfig = getRewardConfig(env);
+
+    if (rewardConfig && isUnderPar(moves.length, puzzle.optimalMoves)) {
+      const {kv, discountCode} = rewardConfig;
+      // Claims are kept on the server, per customer or else per cart, so
+      // replaying the request or an old cookie cannot claim a board twice
+      const currentCart = await cart.get();
+      const cartId = currentCart?.id ?? (await cart.create({})).cart?.id;
+      const owner = customerId ?? cartId;
+
+      if (cartId && owner && (await claimReward(kv, owner, seed))) {
+        try {
+          const result = await updateDiscountCodes(
+            cart,
+            [
+              discountCode,
+              ...(currentCart?.discountCodes.map(({code}) => code) ?? []),
+            ],
+            cartId,
+          );
+
+          cart.setCartId(result.cart.id).forEach((value, key) => {
+            headers.append(key, value);
+          });
+          reward = discountCode;
+        } catch (error) {
+          await releaseReward(kv, owner, seed);
+          throw error;
+        }
+      }
+    }
+
+    headers.append('Set-Cookie', await session.commit());
+
+    return json(
+      {error: null, moves: moves.length, par, reward, achievements},
+      {headers},
+    );
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      return json({error: error.message}, {status: 400});
+    }
+    return json({error}, {status: 400});
+  }
+}
+
+const celebrate = () => {
+  const end = Date.now() + 3 * 1000; // 3 seconds
+  const colors = ['#a786ff', '#fd8bbc', '#eca184', '#f8deb1'];
+
+  const frame = () => {
+    if (Date.now() > end) return;
+
+    confetti({
+      particleCount: 2,
+      angle: 60,
+      spread: 55,
+      startVelocity: 60,
+      origin: {x: 0, y: 0.5},
+      colors: colors,
+    });
+    confetti({
+      particleCount: 2,
+      angle: 120,
+      spread: 55,
+      startVelocity: 60,
+      origin: {x: 1, y: 0.5},
+      colors: colors,
+    });
+
+    requestAnimationFrame(frame);
+  };
+
+  frame();
+};
+
+export default function MatchPage() {
+  const {
+    seed,
+    difficulty,
+    mode,
+    daily,
+    level,
+    levelPack,
+    cats,
+    isLoggedIn,
+    rewardsEnabled,
+    savedGame: serverSavedGame,
+  } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<RewardResult>();
+  const boardPath = useLocalizedPath(
+    `/match?seed=${seed}&difficulty=${difficulty}${
+      mode === 'classic' ? '' : `&play=${mode}`
+    }`,
+  );
+
+  // Offer the saved game found on first load only, not after every reset
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(serverSavedGame);
+
+  useEffect(() => {
+    if (!isLoggedIn) setSavedGame(loadLocalGame(cats));
+  }, []);
+
+  // Game events, sent to /api/events in batches
+  const [analytics] = useState(() => new AnalyticsClient());
+
+  // Send what is left before the player leaves
+  useEffect(() => {
+    const flush = () => analytics.flush();
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  // Saves of a logged-in customer, sent once they stop moving
+  const [remoteSaver] = useState(() => new RemoteGameSaver());
+
+  useEffect(() => {
+    const flush = () => remoteSaver.flush();
+    window.addEventListener('pagehide', flush);
+
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, []);
+
+  const handleProgress = (game: SavedGame | null) => {
+    if (isLoggedIn) {
+      remoteSaver.save(game);
+    } else {
+      saveLocalGame(game);
+    }
+  };
+
+  // Cats of the last solved board, offered for adoption
+  const [solvedCats, setSolvedCats] = useState<Cat[]>([]);
+
+  // Last solved game, offered for the leaderboard and as a replay
+  const [solvedGame, setSolvedGame] = useState<{
+    seed: string;
+    difficulty: Difficulty;
+    board: GameState;
+    moves: Move[];
+    duration: number;
+  } | null>(null);
+
+  const handleComplete = (result: {
+    seed: string;
+    difficulty: Difficulty;
+    cats: Cat[];
+    board: GameState;
+    moves: Move[];
+    duration: number;
+  }) => {
+    celebrate();
+    setSolvedCats(result.cats);
+    setSolvedGame(result);
+
+    // Let the server verify the win for the daily streak and the reward
+    // Level pack boards follow their own rules and are not ranked
+    if (level) return;
+
+    if ((daily && !daily.result) || rewardsEnabled || isLoggedIn) {
+      fetcher.submit(
+        {
+          seed: result.seed,
+          difficulty: result.difficulty,
+          moves: JSON.stringify(result.moves),
+        },
+        {method: 'POST'},
+      );
+    }
+  };
+
+  const handleDownloadReplay = () => {
+    if (!solvedGame) return;
+
+    downloadReplay(
+      createReplay({
+        seed: solvedGame.seed,
+        level: level?.config ?? DIFFICULTY_CONFIG[solvedGame.difficulty],
+        board: solvedGame.board,
+        moves: solvedGame.moves,
+      }),
+    );
+  };
+
+  // Keep the URL pointing at the board on screen
+  const handleNewGame = ({
+    mode: play,
+    ...game
+  }: {
+    seed: string;
+    difficulty: Difficulty;
+    mode: GameMode;
+  }) => {
+    setSearchParams(play === 'classic' ? game : {...game, play}, {
+      replace: true,
+      preventScrollReset: true,
+    });
+    setSolvedCats([]);
+    setSolvedGame(null);
+  };
+
+  return (
+    <div className="search">
+      <h1>Match</h1>
+      <nav className="flex justify-center gap-3 text-sm">
+        <Link to="/match">Free play</Link>
+        &middot;
+        <Link to="/match?mode=daily">Daily challenge</Link>
+        &middot;
+        <Link to={`/match?level=${levelPack.levels[0]?.id}`}>Levels</Link>
+        &middot;
+        <Link to="/match/race">Race</Link>
+        &middot;
+        <Link to="/match/leaderboard">Leaderboard</Link>
+        &middot;
+        <Link to="/match/replay">Replays</Link>
+      </nav>
+      {level && (
+        <nav className="flex flex-wrap justify-center gap-3 text-sm">
+          {levelPack.name}:
+          {levelPack.levels.map(({id, name}) => (
+            <Link
+              key={id}
+              to={`/match?level=${id}`}
+              className={id === level.id ? 'font-bold' : undefined}
+            >
+              {name}
+            </Link>
+          ))}
+        </nav>
+      )}
+      {daily && (
+        <p className="text-center text-sm">
+          Daily challenge for {daily.day} &middot; Best possible:{' '}
+          {daily.optimalMoves} moves &middot; Streak: {daily.streak}{' '}
+          {daily.streak === 1 ? 'day' : 'days'}
+          {daily.result && (
+            <>
+              <br />
+              Solved today in {daily.result.moves} moves (
+              {daily.result.moves - daily.result.optimalMoves} over the best).
+              Come back tomorrow for a new board!
+            </>
+          )}
+        </p>
+      )}
+      <CatSort
+        cats={cats}
+        seed={seed}
+        initialDifficulty={difficulty}
+        initialMode={mode}
+        level={level?.config}
+        locked={Boolean(daily || level)}
+        savedGame={savedGame}
+        onComplete={handleComplete}
+        onNewGame={handleNewGame}
+        onProgress={handleProgress}
+        onEvent={(event) => analytics.track(event)}
+      />
+      {rewardsEnabled && !level && (
+        <RewardStatus result={solvedCats.length ? fetcher.data : undefined} />
+      )}
+      {solvedCats.length > 0 && (
+        <AchievementsUnlocked ids={fetcher.data?.achievements} />
+      )}
+      {solvedGame && !level && (
+        <SubmitScore
+          key={`${solvedGame.seed}-${solvedGame.moves.length}`}
+          result={solvedGame}
+        />
+      )}
+      {solvedGame && (
+        <p className="flex justify-center items-center gap-2 text-sm">
+          <Button variant="outline" size="sm" onClick={handleDownloadReplay}>
+            Download replay
+          </Button>
+          <Link to="/match/replay" className="text-gray-500">
+            Open the replay viewer
+          </Link>
+        </p>
+      )}
+      <AdoptCats cats={solvedCats} />
+      {!daily && !level && (
+        <p className="text-center text-xs text-gray-500">
+          Board <code>{seed}</code> &middot;{' '}
+          <a href={boardPath}>Link to this board</a>
+        </p>
+      )}
+    </div>
+  );
+}
+
+type RewardResult = {
+  error: string | null;
+  moves?: number;
+  par?: number;
+  reward?: string | null;
+  achievements?: AchievementId[];
+};
+
+function AchievementsUnlocked({ids}: {ids?: AchievementId[]}) {
+  if (!ids?.length) return null;
+
+  return (
+    <p className="flex flex-wrap justify-center items-center gap-2 text-sm">
+      Achievement unlocked:
+      {ids.map((id) => (
+        <Badge key={id} title={ACHIEVEMENTS[id].description}>
+          {ACHIEVEMENTS[id].name}
+        </Badge>
+      ))}
+      <Link to="/account/achievements" className="text-gray-500">
+        See all
+      </Link>
+    </p>
+  );
+}
+
+function RewardStatus({result}: {result?: RewardResult}) {
+  if (!result?.par) {
+    return (
+      <p className="text-center text-sm text-gray-500">
+        Solve a board close to the best possible move count to earn a discount!
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-center text-sm">
+      {result.reward ? (
+        <>
+          You beat par ({result.par} moves)! Discount code{' '}
+          <code>{result.reward}</code> has been added to your cart.
+        </>
+      ) : result.moves! <= result.par ? (
+        <>You beat par again, but this board was already rewarded.</>
+      ) : (
+        <>
+          Solved in {result.moves} moves. Finish within {result.par} moves to
+          earn a discount.
+        </>
+      )}
+    </p>
+  );
+}
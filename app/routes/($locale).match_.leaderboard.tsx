@@ -0,0 +1,194 @@
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
+import {
+  json,
+  type ActionArgs,
+  type LoaderArgs,
+  V2_MetaFunction,
+} from '@shopify/remix-oxygen';
+import {
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  isDifficulty,
+  parseMoves,
+} from '~/lib/match/engine';
+import {verifySolution} from '~/lib/match/puzzle';
+import {isValidSeed} from '~/lib/match/random';
+import {getMatchCats} from '~/lib/match/cats';
+import {getDailyChallenge, getDailyKey} from '~/lib/match/daily';
+import {
+  type LeaderboardEntry,
+  getLeaderboard,
+  getLeaderboardStorage,
+  sanitizeName,
+  submitEntry,
+} from '~/lib/match/leaderboard';
+import {getCustomerId} from '~/lib/customer';
+import {cn} from '~/lib/utils';
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: `Hydrogen | Match leaderboard`}];
+};
+
+// Session key holding the id that tells a guest's entries apart
+const PLAYER_SESSION_KEY = 'catSortPlayer';
+
+// Player ids only tell entries apart, so they stay on the server
+function toPublicEntry({player, ...entry}: LeaderboardEntry) {
+  return entry;
+}
+
+/**
+ * Shows the ranking of one difficulty, picked with `?difficulty=…`, next
+ * to the ranking of today's daily challenge.
+ */
+export async function loader({request, context}: LoaderArgs) {
+  const storage = getLeaderboardStorage(context.env);
+  const param = new URL(request.url).searchParams.get('difficulty');
+  const difficulty = isDifficulty(param) ? param : 'medium';
+  const day = getDailyKey();
+
+  const [entries, dailyEntries] = await Promise.all([
+    getLeaderboard(storage, {type: 'difficulty', difficulty}),
+    getLeaderboard(storage, {type: 'daily', day}),
+  ]);
+
+  return json({
+    difficulty,
+    entries: entries.map(toPublicEntry),
+    day,
+    dailyEntries: dailyEntries.map(toPublicEntry),
+  });
+}
+
+/**
+ * Submits a win to the leaderboards. Like the match action, the moves are
+ * replayed against the board dealt from the seed, so only genuine
+ * solutions get ranked.
+ */
+export async function action({request, context}: ActionArgs) {
+  const {session, storefront, env} = context;
+
+  if (request.method !== 'POST') {
+    return json({error: 'Method not allowed', ranks: null}, {status: 405});
+  }
+
+  try {
+    const [form, cats] = await Promise.all([
+      request.formData(),
+      getMatchCats(storefront, env.MATCH_CATS_COLLECTION),
+    ]);
+    const seed = form.get('seed');
+    const difficulty = form.get('difficulty');
+    const moves = parseMoves(form.get('moves'));
+
+    if (!isValidSeed(seed) || !isDifficulty(difficulty)) {
+      throw new Error('Invalid Cat Sort board');
+    }
+
+    const puzzle = verifySolution(
+      cats,
+      DIFFICULTY_CONFIG[difficulty],
+      seed,
+      moves,
+    );
+    const challenge = getDailyChallenge(cats);
+    const isDaily =
+      seed === challenge.puzzle.seed && difficulty === challenge.difficulty;
+
+    const headers = new Headers();
+    let player: string | undefined =
+      (await getCustomerId(storefront, session)) ??
+      (await session.get(PLAYER_SESSION_KEY));
+    if (!player) {
+      player = crypto.randomUUID();
+      session.set(PLAYER_SESSION_KEY, player);
+      headers.set('Set-Cookie', await session.commit());
+    }
+
+    const ranks = await submitEntry(getLeaderboardStorage(env), {
+      name: sanitizeName(form.get('name')),
+      player,
+      seed,
+      difficulty,
+      day: isDaily ? challenge.day : null,
+      moves: moves.length,
+      optimalMoves: puzzle.optimalMoves,
+      submittedAt: new Date().toISOString(),
+    });
+
+    return json({error: null, ranks}, {headers});
+  } catch (error: unknown) {
+    if (error instanceof Error) {
+      return json({error: error.message, ranks: null}, {status: 400});
+    }
+    return json({error, ranks: null}, {status: 400});
+  }
+}
+
+export default function MatchLeaderboard() {
+  const {difficulty, entries, day, dailyEntries} =
+    useLoaderData<typeof loader>();
+
+  return (
+    <div className="search">
+      <h1>Leaderboard</h1>
+      <nav className="flex justify-center gap-3 text-sm">
+        <Link to="/match">Back to the game</Link>
+      </nav>
+      <section className="flex flex-col items-center gap-3 mt-6">
+        <h3 className="text-lg font-semibold">Daily challenge for {day}</h3>
+        <LeaderboardTable entries={dailyEntries} />
+      </section>
+      <section className="flex flex-col items-center gap-3 mt-6">
+        <h3 className="text-lg font-semibold">Free play</h3>
+        <nav className="flex justify-center gap-3 text-sm">
+          {DIFFICULTIES.map((level) => (
+            <Link
+              key={level}
+              to={`?difficulty=${level}`}
+              preventScrollReset
+              className={cn('capitalize', level === difficulty && 'font-bold')}
+            >
+              {level}
+            </Link>
+          ))}
+        </nav>
+        <LeaderboardTable entries={entries} />
+      </section>
+    </div>
+  );
+}
+
+function LeaderboardTable({
+  entries,
+}: {
+  entries: ReturnType<typeof toPublicEntry>[];
+}) {
+  if (!entries.length) {
+    return <p className="text-sm text-gray-500">No wins yet. Be the first!</p>;
+  }
+
+  return (
+    <table className="text-sm">
+      <thead>
+        <tr className="text-left">
+          <th className="px-2">#</th>
+          <th className="px-2">Name</th>
+          <th className="px-2">Moves</th>
+          <th className="px-2">Over best</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry, index) => (
+          <tr key={`${entry.submittedAt}-${index}`}>
+            <td className="px-2">{index + 1}</td>
+            <td className="px-2">{entry.name}</td>
+            <td className="px-2">{entry.moves}</td>
+            <td className="px-2">{entry.moves - entry.optimalMoves}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,298 @@
+import {useEffect, useMemo, useRef, useState} from 'react';
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
+import {
+  json,
+  redirect,
+  type LoaderArgs,
+  V2_MetaFunction,
+} from '@shopify/remix-oxygen';
+import {CatSort} from '~/components/match/CatSort';
+import {RaceOpponent} from '~/components/match/RaceOpponent';
+import {
+  type Cat,
+  type Difficulty,
+  type Move,
+  DIFFICULTIES,
+  DIFFICULTY_CONFIG,
+  isDifficulty,
+  replayMoves,
+} from '~/lib/match/engine';
+import {type Puzzle, generatePuzzle} from '~/lib/match/puzzle';
+import {createSeed, isValidSeed} from '~/lib/match/random';
+import {getMatchCats} from '~/lib/match/cats';
+import {formatDuration} from '~/lib/match/leaderboard';
+import {
+  RaceHub,
+  type RaceTransport,
+  createEventSourceTransport,
+  createLocalTransport,
+  startRaceBot,
+} from '~/lib/match/race';
+
+// How often a player waiting for an opponent announces itself, in ms
+const JOIN_INTERVAL = 3000;
+
+// Time the computer opponent takes per move, in ms
+const BOT_MOVE_INTERVAL = 3000;
+
+type RaceResult = {moves: number; duration: number};
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: `Hydrogen | Match race`}];
+};
+
+/**
+ * Two players race on the board dealt from the room id,
+ * `?room=…&difficulty=…`. Picking only a difficulty opens a new room, and
+ * `&computer=1` races a computer opponent instead of another player.
+ */
+export async function loader({request, context}: LoaderArgs) {
+  const {storefront, env} = context;
+  const {searchParams} = new URL(request.url);
+  const room = searchParams.get('room');
+  const difficultyParam = searchParams.get('difficulty');
+  const difficulty: Difficulty = isDifficulty(difficultyParam)
+    ? difficultyParam
+    : 'medium';
+  const vsComputer = searchParams.get('computer') === '1';
+
+  if (!isValidSeed(room)) {
+    if (!difficultyParam) {
+      return json({room: null, difficulty, vsComputer, cats: []});
+    }
+
+    searchParams.set('room', createSeed());
+    searchParams.set('difficulty', difficulty);
+    return redirect(`${storefront.i18n.pathPrefix}/match/race?${searchParams}`);
+  }
+
+  const cats = await getMatchCats(storefront, env.MATCH_CATS_COLLECTION);
+
+  return json({room, difficulty, vsComputer, cats});
+}
+
+export default function MatchRace() {
+  const {room, difficulty, vsComputer, cats} = useLoaderData<typeof loader>();
+
+  return (
+    <div className="search">
+      <h1>Race</h1>
+      <nav className="flex justify-center gap-3 text-sm">
+        <Link to="/match">Back to the game</Link>
+      </nav>
+      {room ? (
+        <Race
+          key={room}
+          room={room}
+          difficulty={difficulty}
+          vsComputer={vsComputer}
+          cats={cats}
+        />
+      ) : (
+        <RaceLobby />
+      )}
+    </div>
+  );
+}
+
+function RaceLobby() {
+  return (
+    <div className="flex flex-col items-center gap-3 mt-6 text-sm">
+      <p>
+        Race a friend on the same board: open a room and send them the link.
+      </p>
+      <nav className="flex justify-center gap-3">
+        {DIFFICULTIES.map((preset) => (
+          <Link
+            key={preset}
+            to={`?difficulty=${preset}`}
+            className="capitalize"
+          >
+            {preset}
+          </Link>
+        ))}
+      </nav>
+      <p>
+        Or <Link to="?difficulty=medium&computer=1">race the computer</Link>.
+      </p>
+    </div>
+  );
+}
+
+function Race({
+  room,
+  difficulty,
+  vsComputer,
+  cats,
+}: {
+  room: string;
+  difficulty: Difficulty;
+  vsComputer: boolean;
+  cats: Cat[];
+}) {
+  const [playerId] = useState(() => createSeed());
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [opponentId, setOpponentId] = useState<string | null>(null);
+  const [opponentMoves, setOpponentMoves] = useState<Move[]>([]);
+  const [opponentResult, setOpponentResult] = useState<RaceResult | null>(null);
+  const [result, setResult] = useState<RaceResult | null>(null);
+  const [shareUrl, setShareUrl] = useState('');
+
+  const transportRef = useRef<RaceTransport | null>(null);
+
+  // Connect to the room and follow the first other player in it
+  useEffect(() => {
+    const racePuzzle = generatePuzzle(
+      cats,
+      DIFFICULTY_CONFIG[difficulty],
+      room,
+    );
+    setPuzzle(racePuzzle);
+    setShareUrl(window.location.href.replace(/&computer=1/, ''));
+
+    let stopBot: (() => void) | undefined;
+    let transport: RaceTransport;
+
+    if (vsComputer) {
+      const hub = new RaceHub();
+      transport = createLocalTransport(hub);
+      stopBot = startRaceBot(createLocalTransport(hub), racePuzzle.solution, {
+        playerId: createSeed(),
+        interval: BOT_MOVE_INTERVAL,
+      });
+    } else {
+      transport = createEventSourceTransport(room);
+    }
+    transportRef.current = transport;
+
+    let opponent: string | null = null;
+    const answered = new Set<string>();
+
+    const unsubscribe = transport.subscribe((message) => {
+      if (message.playerId === playerId) return;
+
+      if (message.type === 'join' && !answered.has(message.playerId)) {
+        answered.add(message.playerId);
+        transport.send({type: 'join', playerId});
+      }
+
+      if (!opponent) {
+        opponent = message.playerId;
+        setOpponentId(opponent);
+      }
+      if (message.playerId !== opponent) return;
+
+      if (message.type === 'progress') {
+        try {
+          // Only show progress that fits the board
+          replayMoves(racePuzzle.state, message.moves);
+          setOpponentMoves(message.moves);
+        } catch {
+          // A client on another catalog or version; keep the last board
+        }
+      } else if (message.type === 'finish') {
+        setOpponentResult({moves: message.moves, duration: message.duration});
+      }
+    });
+
+    const join = () => transport.send({type: 'join', playerId});
+    join();
+    const rejoin = setInterval(() => {
+      if (!opponent) join();
+    }, JOIN_INTERVAL);
+
+    return () => {
+      clearInterval(rejoin);
+      unsubscribe();
+      stopBot?.();
+      transport.close();
+      transportRef.current = null;
+    };
+  }, []);
+
+  const opponentBoard = useMemo(
+    () => puzzle && replayMoves(puzzle.state, opponentMoves),
+    [puzzle, opponentMoves],
+  );
+
+  const handleMovesChange = (moves: Move[]) => {
+    transportRef.current?.send({type: 'progress', playerId, moves});
+  };
+
+  const handleComplete = ({
+    moves,
+    duration,
+  }: {
+    moves: Move[];
+    duration: number;
+  }) => {
+    const raceResult = {moves: moves.length, duration};
+    setResult(raceResult);
+    transportRef.current?.send({type: 'finish', playerId, ...raceResult});
+  };
+
+  if (!opponentId || !opponentBoard) {
+    return (
+      <div className="flex flex-col items-center gap-2 mt-6 text-sm">
+        <p>Waiting for an opponent&hellip;</p>
+        {shareUrl && !vsComputer && (
+          <p>
+            Send them this link: <code>{shareUrl}</code>
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <RaceStatus result={result} opponentResult={opponentResult} />
+      <div className="flex flex-wrap justify-center items-start gap-4">
+        <CatSort
+          cats={cats}
+          seed={room}
+          initialDifficulty={difficulty}
+          locked
+          onMovesChange={handleMovesChange}
+          onComplete={handleComplete}
+        />
+        <RaceOpponent
+          board={opponentBoard}
+          moves={opponentMoves.length}
+          result={opponentResult}
+        />
+      </div>
+    </>
+  );
+}
+
+// The faster solve wins; until both finished, finishing first leads
+function RaceStatus({
+  result,
+  opponentResult,
+}: {
+  result: RaceResult | null;
+  opponentResult: RaceResult | null;
+}) {
+  let message = 'Race on! The first to sort all the cats wins.';
+
+  if (result && opponentResult) {
+    message =
+      result.duration <= opponentResult.duration
+        ? `You won the race in ${formatDuration(result.duration)}!`
+        : `Your opponent won by ${formatDuration(
+            result.duration - opponentResult.duration,
+          )}.`;
+  } else if (result) {
+    message = 'You finished first! Waiting for your opponent…';
+  } else if (opponentResult) {
+    message = 'Your opponent finished. Keep going!';
+  }
+
+  return (
+    <p className="text-center text-sm font-semibold" role="status">
+      {message}
+    </p>
+  );
+}
@@ -0,0 +1,74 @@
+import {type ChangeEvent, useState} from 'react';
+import {Link} from '~/components/Link';
+import {V2_MetaFunction} from '@shopify/remix-oxygen';
+import {ReplayViewer} from '~/components/match/ReplayViewer';
+import {type Replay, parseReplay} from '~/lib/match/replay';
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: `Hydrogen | Match replay`}];
+};
+
+/**
+ * Plays back a replay downloaded after a win. The file is read in the
+ * browser, nothing is uploaded.
+ */
+export default function MatchReplay() {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReplay = (text: string) => {
+    try {
+      setReplay(parseReplay(text));
+      setError(null);
+    } catch (error: unknown) {
+      setReplay(null);
+      setError(
+        error instanceof Error && !(error instanceof SyntaxError)
+          ? error.message
+          : 'This file is not a Cat Sort replay',
+      );
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) loadReplay(await file.text());
+  };
+
+  return (
+    <div className="search">
+      <h1>Replay</h1>
+      <nav className="flex justify-center gap-3 text-sm">
+        <Link to="/match">Back to the game</Link>
+      </nav>
+      <div className="flex flex-col items-center gap-2 mt-6">
+        <label htmlFor="replay-file" className="text-sm">
+          Open a replay downloaded after a win
+        </label>
+        <input
+          id="replay-file"
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="text-sm"
+        />
+        {error && (
+          <p className="text-sm text-red-600" role="alert">
+            {error}
+          </p>
+        )}
+      </div>
+      {replay && (
+        <>
+          <p className="text-center text-xs text-gray-500 mt-4">
+            Board <code>{replay.seed}</code> &middot; {replay.moves.length}{' '}
+            moves
+            {replay.createdAt &&
+              ` · played ${new Date(replay.createdAt).toLocaleDateString()}`}
+          </p>
+          <ReplayViewer replay={replay} />
+        </>
+      )}
+    </div>
+  );
+}
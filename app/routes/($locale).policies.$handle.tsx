@@ -1,6 +1,7 @@
 import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {json, type LoaderArgs} from '@shopify/remix-oxygen';
-import {Link, useLoaderData} from '@remix-run/react';
+import {useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import {type Shop} from '@shopify/hydrogen-react/storefront-api-types';
 
 type SelectedPolicies = keyof Pick<
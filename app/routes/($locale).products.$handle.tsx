@@ -2,7 +2,8 @@ import {Suspense} from 'react';
 import type {V2_MetaFunction} from '@shopify/remix-oxygen';
 import {defer, redirect, type LoaderArgs} from '@shopify/remix-oxygen';
 import type {FetcherWithComponents} from '@remix-run/react';
-import {Await, Link, useLoaderData} from '@remix-run/react';
+import {Await, useLoaderData} from '@remix-run/react';
+import {Link} from '~/components/Link';
 import type {
   ProductFragment,
   ProductVariantsQuery,
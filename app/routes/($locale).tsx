@@ -0,0 +1,25 @@
+import {Outlet} from '@remix-run/react';
+import {type LoaderArgs} from '@shopify/remix-oxygen';
+import {getLocaleKey} from '~/lib/i18n';
+
+/**
+ * Every route sits under an optional locale segment, e.g. `/fr-ca/cart`.
+ * `server.ts` already picked the locale from the path; a segment that
+ * names no locale we sell in is a missing page, not a locale.
+ */
+export async function loader({params, context}: LoaderArgs) {
+  const {locale} = params;
+
+  if (
+    locale &&
+    locale.toLowerCase() !== getLocaleKey(context.storefront.i18n)
+  ) {
+    throw new Response(`${locale} not found`, {status: 404});
+  }
+
+  return null;
+}
+
+export default function LocaleLayout() {
+  return <Outlet />;
+}
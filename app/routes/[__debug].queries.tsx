@@ -0,0 +1,105 @@
+import {useLoaderData} from '@remix-run/react';
+import {json, type V2_MetaFunction} from '@shopify/remix-oxygen';
+import {Badge} from '~/components/ui/badge';
+import {
+  type QueryRecord,
+  SLOW_QUERY_MS,
+  getQueryWarnings,
+  getRecentRequests,
+} from '~/lib/storefront';
+import {cn} from '~/lib/utils';
+
+export const meta: V2_MetaFunction = () => {
+  return [{title: 'Hydrogen | Storefront API queries'}];
+};
+
+/**
+ * Lists the Storefront API queries of the latest requests this server
+ * handled, newest first. Only exists in development.
+ */
+export async function loader() {
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Response('Not found', {status: 404});
+  }
+
+  const requests = getRecentRequests()
+    .filter(({queries}) => queries.length)
+    .map((request) => ({...request, queries: [...request.queries]}));
+
+  return json({requests}, {headers: {'Cache-Control': 'no-store'}});
+}
+
+export default function DebugQueries() {
+  const {requests} = useLoaderData<typeof loader>();
+
+  return (
+    <div className="search">
+      <h1>Storefront API queries</h1>
+      <p className="text-sm text-gray-500">
+        Queries slower than {SLOW_QUERY_MS}ms, and queries that skip the cache,
+        are flagged. Reload to see new requests.
+      </p>
+      {!requests.length && (
+        <p className="text-sm text-gray-500 mt-6">No queries made yet.</p>
+      )}
+      {requests.map((request) => (
+        <section key={request.requestId} className="mt-6">
+          <h3 className="text-lg font-semibold">
+            {request.method} {request.path}
+          </h3>
+          <p className="text-xs text-gray-500">
+            {request.status} · {request.route ?? 'unknown route'} ·{' '}
+            {request.duration}ms · {request.startedAt} · {request.requestId}
+          </p>
+          <QueryTable queries={request.queries} />
+        </section>
+      ))}
+    </div>
+  );
+}
+
+function QueryTable({queries}: {queries: QueryRecord[]}) {
+  return (
+    <table className="text-sm mt-2">
+      <thead>
+        <tr className="text-left">
+          <th className="px-2">Operation</th>
+          <th className="px-2">Variables</th>
+          <th className="px-2">Cache strategy</th>
+          <th className="px-2">Cache</th>
+          <th className="px-2">Time</th>
+          <th className="px-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {queries.map((query, index) => {
+          const warnings = getQueryWarnings(query);
+          return (
+            <tr
+              key={`${query.operation}-${index}`}
+              className={cn(warnings.length && 'bg-red-50')}
+            >
+              <td className="px-2">
+                {query.operation}
+                {query.type === 'mutation' && (
+                  <span className="text-gray-500"> (mutation)</span>
+                )}
+              </td>
+              <td className="px-2 font-mono">{query.variablesHash}</td>
+              <td className="px-2">{query.cacheStrategy}</td>
+              <td className="px-2">{query.cacheStatus}</td>
+              <td className="px-2">{query.duration}ms</td>
+              <td className="px-2 flex gap-1">
+                {warnings.map((warning) => (
+                  <Badge key={warning} variant="destructive">
+                    {warning}
+                  </Badge>
+                ))}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
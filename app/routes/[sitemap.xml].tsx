@@ -23,6 +23,7 @@ export async function loader({request, context: {storefront}}: LoaderArgs) {
   const data = await storefront.query(SITEMAP_QUERY, {
     variables: {
       urlLimits: MAX_URLS,
+      country: storefront.i18n.country,
       language: storefront.i18n.language,
     },
   });
@@ -136,8 +137,11 @@ function renderUrlTag({url, lastMod, changeFreq, image}: Entry) {
 }
 
 const SITEMAP_QUERY = `#graphql
-  query Sitemap($urlLimits: Int, $language: LanguageCode)
-  @inContext(language: $language) {
+  query Sitemap(
+    $urlLimits: Int
+    $country: CountryCode
+    $language: LanguageCode
+  ) @inContext(country: $country, language: $language) {
     products(
       first: $urlLimits
       query: "published_status:'online_store:visible'"
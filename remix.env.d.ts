@@ -7,6 +7,10 @@ import '@total-typescript/ts-reset';
 
 import type {Storefront, HydrogenCart} from '@shopify/hydrogen';
 import type {HydrogenSession} from './server';
+import type {Locale} from '~/lib/i18n';
+import type {KeyValueStore} from '~/lib/kv';
+import type {RequestLogger} from '~/lib/logger';
+import type {ErrorReporter} from '~/lib/errorReporter';
 
 declare global {
   /**
@@ -14,15 +18,40 @@ declare global {
    */
   const process: {env: {NODE_ENV: 'production' | 'development'}};
 
+  /**
+   * Tests bring in Node's types through vitest, whose `process` has to agree.
+   */
+  namespace NodeJS {
+    interface ProcessEnv {
+      NODE_ENV: 'production' | 'development';
+    }
+  }
+
   /**
    * Declare expected Env parameter in fetch handler.
    */
   interface Env {
+    // Comma-separated; the first signs sessions, all of them verify
     SESSION_SECRET: string;
     PUBLIC_STOREFRONT_API_TOKEN: string;
     PRIVATE_STOREFRONT_API_TOKEN: string;
     PUBLIC_STORE_DOMAIN: string;
     PUBLIC_STOREFRONT_ID: string;
+    // Where sessions are kept: cookie (default), kv or memory
+    SESSION_STORAGE?: string;
+    // Seconds until a session expires; unset ends it with the browser
+    SESSION_MAX_AGE?: string;
+    // Workers KV namespace binding for SESSION_STORAGE=kv and customer data
+    SESSION_KV?: KeyValueStore;
+    // Redis REST endpoint and token to use instead of a SESSION_KV binding
+    SESSION_KV_URL?: string;
+    SESSION_KV_TOKEN?: string;
+    // Handle of the collection whose products are the Cat Sort cats
+    MATCH_CATS_COLLECTION?: string;
+    // Discount code applied to the cart for Cat Sort wins within par
+    MATCH_REWARD_DISCOUNT_CODE?: string;
+    // JSON budgets by route id, e.g. {"root": {"loader": 300}}
+    PERFORMANCE_BUDGETS?: string;
   }
 }
 
@@ -33,7 +62,10 @@ declare module '@shopify/remix-oxygen' {
   export interface AppLoadContext {
     env: Env;
     cart: HydrogenCart;
-    storefront: Storefront;
+    storefront: Storefront<Locale>;
     session: HydrogenSession;
+    logger: RequestLogger;
+    reporter: ErrorReporter;
+    waitUntil: (promise: Promise<any>) => void;
   }
 }
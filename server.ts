@@ -10,10 +10,21 @@ import {
 import {
   createRequestHandler,
   getStorefrontHeaders,
-  createCookieSessionStorage,
   type SessionStorage,
   type Session,
 } from '@shopify/remix-oxygen';
+import {
+  getLocaleFromRequest,
+  getLocaleRedirect,
+  varyByPreferredLocale,
+} from '~/lib/i18n';
+import {getSessionStorage, rotateSession} from '~/lib/session';
+import {EnvError, getEnvConfig} from '~/lib/env';
+import {createErrorPage} from '~/lib/errorPage';
+import {getErrorReporter} from '~/lib/errorReporter';
+import {REQUEST_ID_HEADER, RequestLogger} from '~/lib/logger';
+import {createQueryRecorder, recordRequestQueries} from '~/lib/storefront';
+import {formatServerTiming, getBudget, getExceededBudgets} from '~/lib/timing';
 
 /**
  * Export a fetch handler in module format.
@@ -24,18 +35,31 @@ export default {
     env: Env,
     executionContext: ExecutionContext,
   ): Promise<Response> {
+    /**
+     * Log the request as one JSON line, and report what goes wrong.
+     */
+    const logger = new RequestLogger(request);
+    const reporter = getErrorReporter();
+    const queryRecorder = createQueryRecorder((query) =>
+      logger.recordQuery(query),
+    );
+    const waitUntil = (p: Promise<any>) => executionContext.waitUntil(p);
+
     try {
       /**
-       * Open a cache instance in the worker and a custom session instance.
+       * Check the environment before anything relies on it.
        */
-      if (!env?.SESSION_SECRET) {
-        throw new Error('SESSION_SECRET environment variable is not set');
-      }
+      const config = getEnvConfig(env, process.env.NODE_ENV);
 
-      const waitUntil = (p: Promise<any>) => executionContext.waitUntil(p);
+      /**
+       * Open a cache instance in the worker and a custom session instance.
+       */
       const [cache, session] = await Promise.all([
-        caches.open('hydrogen'),
-        HydrogenSession.init(request, [env.SESSION_SECRET]),
+        caches.open('hydrogen').then(queryRecorder.wrapCache),
+        HydrogenSession.init(
+          request,
+          getSessionStorage(env, config.sessionSecrets),
+        ),
       ]);
 
       /**
@@ -44,13 +68,14 @@ export default {
       const {storefront} = createStorefrontClient({
         cache,
         waitUntil,
-        i18n: {language: 'EN', country: 'US'},
-        publicStorefrontToken: env.PUBLIC_STOREFRONT_API_TOKEN,
-        privateStorefrontToken: env.PRIVATE_STOREFRONT_API_TOKEN,
-        storeDomain: env.PUBLIC_STORE_DOMAIN,
-        storefrontId: env.PUBLIC_STOREFRONT_ID,
+        i18n: getLocaleFromRequest(request),
+        publicStorefrontToken: config.publicStorefrontToken,
+        privateStorefrontToken: config.privateStorefrontToken,
+        storeDomain: config.storeDomain,
+        storefrontId: config.storefrontId,
         storefrontHeaders: getStorefrontHeaders(request),
       });
+      queryRecorder.instrument(storefront);
 
       /*
        * Create a cart handler that will be used to
@@ -70,10 +95,19 @@ export default {
       const handleRequest = createRequestHandler({
         build: remixBuild,
         mode: process.env.NODE_ENV,
-        getLoadContext: () => ({session, storefront, env, cart}),
+        getLoadContext: () => ({
+          session,
+          storefront,
+          env,
+          cart,
+          logger,
+          reporter,
+          waitUntil,
+        }),
       });
 
-      const response = await handleRequest(request);
+      let response =
+        getLocaleRedirect(request) ?? (await handleRequest(request));
 
       if (response.status === 404) {
         /**
@@ -81,22 +115,84 @@ export default {
          * If the redirect doesn't exist, then `storefrontRedirect`
          * will pass through the 404 response.
          */
-        return storefrontRedirect({request, response, storefront});
+        response = await storefrontRedirect({request, response, storefront});
       }
 
+      varyByPreferredLocale(request, response);
+
+      const summary = logger.finish(response.status);
+      response.headers.set(REQUEST_ID_HEADER, logger.requestId);
+      response.headers.set(
+        'Server-Timing',
+        formatServerTiming(summary.timings),
+      );
+
+      /**
+       * Warn about requests slower than their route's budget, to catch
+       * regressions such as an awaited query that could be deferred.
+       */
+      const budget = getBudget(summary.route, config.performanceBudgets);
+      for (const exceeded of getExceededBudgets(summary.timings, budget)) {
+        logger.warn('Performance budget exceeded', {
+          route: summary.route,
+          path: summary.path,
+          ...exceeded,
+        });
+      }
+
+      if (process.env.NODE_ENV === 'development') {
+        recordRequestQueries(summary);
+      }
       return response;
     } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error(error);
-      return new Response('An unexpected error occurred', {status: 500});
+      waitUntil(
+        reporter.report(error, {
+          source: 'request',
+          requestId: logger.requestId,
+          url: request.url,
+        }),
+      );
+      logger.finish(500);
+
+      const response = getErrorPage(error, logger.requestId);
+      response.headers.set(REQUEST_ID_HEADER, logger.requestId);
+      return response;
     }
   },
 };
 
+/**
+ * The page shown when a request fails outside of Remix. Details are only
+ * shown in development, since they can describe the server's secrets.
+ */
+function getErrorPage(error: unknown, requestId: string) {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+
+  if (error instanceof EnvError) {
+    return createErrorPage({
+      status: 500,
+      title: 'This storefront is not configured correctly',
+      message:
+        'Its environment variables are missing or invalid. Check the server logs for which ones.',
+      details: isDevelopment ? error.issues : undefined,
+      requestId,
+    });
+  }
+
+  return createErrorPage({
+    status: 500,
+    title: 'Something went wrong',
+    message: 'An unexpected error occurred. Please try again in a moment.',
+    details:
+      isDevelopment && error instanceof Error ? [error.message] : undefined,
+    requestId,
+  });
+}
+
 /**
  * This is a custom session implementation for your Hydrogen shop.
- * Feel free to customize it to your needs, add helper methods, or
- * swap out the cookie-based implementation with something else!
+ * Feel free to customize it to your needs or add helper methods. Where
+ * the data is kept is picked by `SESSION_STORAGE`, see `~/lib/session`.
  */
 export class HydrogenSession {
   constructor(
@@ -104,17 +200,7 @@ export class HydrogenSession {
     private session: Session,
   ) {}
 
-  static async init(request: Request, secrets: string[]) {
-    const storage = createCookieSessionStorage({
-      cookie: {
-        name: 'session',
-        httpOnly: true,
-        path: '/',
-        sameSite: 'lax',
-        secrets,
-      },
-    });
-
+  static async init(request: Request, storage: SessionStorage) {
     const session = await storage.getSession(request.headers.get('Cookie'));
 
     return new this(storage, session);
@@ -144,6 +230,14 @@ export class HydrogenSession {
     this.session.set(key, value);
   }
 
+  /**
+   * Moves the session data to a new session id and drops the old one, so
+   * an id known before signing in can't be used after it.
+   */
+  async rotate() {
+    this.session = await rotateSession(this.sessionStorage, this.session);
+  }
+
   commit() {
     return this.sessionStorage.commitSession(this.session);
   }
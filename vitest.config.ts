@@ -0,0 +1,9 @@
+import {resolve} from 'node:path';
+import {defineConfig} from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The same `~/` alias as tsconfig.json, for tests of modules that use it
+    alias: {'~': resolve(__dirname, 'app')},
+  },
+});